@@ -4,32 +4,51 @@ import {
 	type DockviewReadyEvent,
 } from "dockview";
 import { useEffect } from "react";
+import { Annotations } from "./features/annotations";
 import { Chat } from "./features/chat";
 import { Conversations } from "./features/conversations";
+import { Diagnostics } from "./features/diagnostics";
+import { Diff } from "./features/diff";
 import { Dockview } from "./features/dockview";
+import { Links } from "./features/links";
 import { Search } from "./features/search";
+import { Shortcuts } from "./features/shortcuts";
 
 export default function App() {
 	return (
 		<Dockview.Provider>
-			<Conversations.Provider>
-				<Search.Provider>
-					<Chat.Provider>
-						<AppShell />
-					</Chat.Provider>
-				</Search.Provider>
-			</Conversations.Provider>
+			<Shortcuts.Provider>
+				<Annotations.Provider>
+					<Conversations.Provider>
+						<Search.Provider>
+							<Diff.Provider>
+								<Diagnostics.Provider>
+									<Chat.Provider>
+										<AppShell />
+									</Chat.Provider>
+								</Diagnostics.Provider>
+							</Diff.Provider>
+						</Search.Provider>
+					</Conversations.Provider>
+				</Annotations.Provider>
+			</Shortcuts.Provider>
 		</Dockview.Provider>
 	);
 }
 
 function AppShell() {
 	const { state, actions } = Dockview.useDockview();
+	const {
+		actions: { setIsHelpOpen },
+	} = Shortcuts.useShortcuts();
 
 	const dockviewComponents = {
 		conversations: Conversations.Panel,
 		chat: Chat.Panel,
+		chatTab: Chat.TabPanel,
 		search: Search.Panel,
+		diff: Diff.Panel,
+		diagnostics: Diagnostics.Panel,
 	};
 
 	const handleDockReady = (event: DockviewReadyEvent) => {
@@ -53,6 +72,28 @@ function AppShell() {
 			},
 			inactive: true,
 		});
+		const diffPanel = event.api.addPanel({
+			id: "diff",
+			component: "diff",
+			title: "DIFF",
+			position: {
+				referencePanel: "conversations",
+				direction: "within",
+				index: 2,
+			},
+			inactive: true,
+		});
+		const diagnosticsPanel = event.api.addPanel({
+			id: "diagnostics",
+			component: "diagnostics",
+			title: "DIAGNOSTICS",
+			position: {
+				referencePanel: "conversations",
+				direction: "within",
+				index: 3,
+			},
+			inactive: true,
+		});
 		const chatPanel = event.api.addPanel({
 			id: "chat",
 			component: "chat",
@@ -67,6 +108,8 @@ function AppShell() {
 		actions.setPanels({
 			conversations: conversationsPanel,
 			search: searchPanel,
+			diff: diffPanel,
+			diagnostics: diagnosticsPanel,
 			chat: chatPanel,
 		});
 	};
@@ -210,6 +253,13 @@ function AppShell() {
 					<span className="text-slate-300 font-semibold">CHATGPT EXPORT</span>
 					<span className="text-slate-500">/</span>
 					<span className="text-slate-400">CONVERSATIONS.JSON VIEWER</span>
+					<button
+						type="button"
+						className="interactive ml-auto text-slate-500 hover:text-cyan-300"
+						onClick={() => setIsHelpOpen(true)}
+					>
+						[?] SHORTCUTS
+					</button>
 				</section>
 
 				<section className="mt-3">
@@ -219,12 +269,17 @@ function AppShell() {
 							onReady={handleDockReady}
 							components={dockviewComponents}
 							defaultTabComponent={(props) => (
-								<DockviewDefaultTab {...props} hideClose />
+								<DockviewDefaultTab
+									{...props}
+									hideClose={!props.api.id.startsWith("chat-")}
+								/>
 							)}
 						/>
 					</div>
 				</section>
 			</main>
+			<Shortcuts.Overlay />
+			<Links.Sync />
 		</div>
 	);
 }
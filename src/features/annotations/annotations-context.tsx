@@ -0,0 +1,162 @@
+import {
+	createContext,
+	type ReactNode,
+	useCallback,
+	useContext,
+	useEffect,
+	useMemo,
+	useState,
+} from "react";
+import { downloadBlob } from "../../lib/download";
+import {
+	type Annotation,
+	type AnnotationMap,
+	createAnnotationsFile,
+	emptyAnnotation,
+	loadAnnotations,
+	mergeAnnotations,
+	normalizeTag,
+	parseAnnotationsFile,
+	saveAnnotations,
+} from "./annotations-utils";
+
+type AnnotationsState = {
+	annotations: AnnotationMap;
+	/** Every tag in use with how many conversations carry it. */
+	tagCounts: Array<[string, number]>;
+	starredCount: number;
+	error: string | null;
+};
+
+type AnnotationsActions = {
+	toggleStar: (key: string) => void;
+	addTag: (key: string, tag: string) => void;
+	removeTag: (key: string, tag: string) => void;
+	setNote: (key: string, note: string) => void;
+	exportAnnotations: () => void;
+	importAnnotations: (file: File) => Promise<void>;
+};
+
+type AnnotationsMeta = {
+	getAnnotation: (key: string | undefined) => Annotation;
+};
+
+type AnnotationsContextValue = {
+	state: AnnotationsState;
+	actions: AnnotationsActions;
+	meta: AnnotationsMeta;
+};
+
+const AnnotationsContext = createContext<AnnotationsContextValue | null>(null);
+
+export function useAnnotations() {
+	const context = useContext(AnnotationsContext);
+	if (!context) {
+		throw new Error(
+			"Annotations components must be used within <Annotations.Provider>.",
+		);
+	}
+	return context;
+}
+
+type AnnotationsProviderProps = {
+	children: ReactNode;
+};
+
+export function AnnotationsProvider({ children }: AnnotationsProviderProps) {
+	const [annotations, setAnnotations] =
+		useState<AnnotationMap>(loadAnnotations);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		saveAnnotations(annotations);
+	}, [annotations]);
+
+	const tagCounts = useMemo(() => {
+		const counts = new Map<string, number>();
+		for (const annotation of Object.values(annotations)) {
+			for (const tag of annotation.tags) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+		return [...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+	}, [annotations]);
+
+	const starredCount = useMemo(
+		() =>
+			Object.values(annotations).filter((annotation) => annotation.starred)
+				.length,
+		[annotations],
+	);
+
+	const update = (key: string, change: (old: Annotation) => Annotation) => {
+		setAnnotations((old) => ({
+			...old,
+			[key]: { ...change(old[key] ?? emptyAnnotation), updatedAt: Date.now() },
+		}));
+	};
+
+	const actions: AnnotationsActions = {
+		toggleStar: (key) =>
+			update(key, (old) => ({ ...old, starred: !old.starred })),
+		addTag: (key, tag) => {
+			const normalized = normalizeTag(tag);
+			if (!normalized) return;
+			update(key, (old) =>
+				old.tags.includes(normalized)
+					? old
+					: { ...old, tags: [...old.tags, normalized] },
+			);
+		},
+		removeTag: (key, tag) =>
+			update(key, (old) => ({
+				...old,
+				tags: old.tags.filter((item) => item !== tag),
+			})),
+		setNote: (key, note) => update(key, (old) => ({ ...old, note })),
+		exportAnnotations: () => {
+			const file = createAnnotationsFile(annotations);
+			downloadBlob(
+				new Blob([JSON.stringify(file, null, 2)], {
+					type: "application/json",
+				}),
+				`conversation-annotations-${file.exportedAt.slice(0, 10)}.json`,
+			);
+		},
+		importAnnotations: async (file) => {
+			try {
+				const incoming = parseAnnotationsFile(await file.text());
+				setAnnotations((old) => mergeAnnotations(old, incoming));
+				setError(null);
+				console.info("[annotations] imported", {
+					count: Object.keys(incoming).length,
+				});
+			} catch (err) {
+				const message =
+					err instanceof Error ? err.message : "Unable to read annotations.";
+				setError(`Import failed: ${message}`);
+			}
+		},
+	};
+
+	// Stable until the annotations change, so callers can memoize on it.
+	const getAnnotation = useCallback(
+		(key: string | undefined) =>
+			(key ? annotations[key] : undefined) ?? emptyAnnotation,
+		[annotations],
+	);
+
+	const meta: AnnotationsMeta = { getAnnotation };
+
+	return (
+		<AnnotationsContext.Provider
+			value={{
+				state: { annotations, tagCounts, starredCount, error },
+				actions,
+				meta,
+			}}
+		>
+			{children}
+		</AnnotationsContext.Provider>
+	);
+}
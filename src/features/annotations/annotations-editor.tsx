@@ -0,0 +1,94 @@
+import { useId, useState } from "react";
+import { useAnnotations } from "./annotations-context";
+import { presetTags } from "./annotations-utils";
+
+type AnnotationsEditorProps = {
+	conversationKey: string;
+};
+
+export function AnnotationsEditor({ conversationKey }: AnnotationsEditorProps) {
+	const {
+		state: { tagCounts },
+		actions: { toggleStar, addTag, removeTag, setNote },
+		meta: { getAnnotation },
+	} = useAnnotations();
+	const annotation = getAnnotation(conversationKey);
+	const [draft, setDraft] = useState("");
+	const listId = useId();
+
+	const suggestions = [
+		...new Set([...presetTags, ...tagCounts.map(([tag]) => tag)]),
+	].filter((tag) => !annotation.tags.includes(tag));
+
+	const submitDraft = () => {
+		addTag(conversationKey, draft);
+		setDraft("");
+	};
+
+	return (
+		<div className="flex flex-col gap-1 text-[11px]">
+			<div className="flex flex-wrap items-center gap-1">
+				<button
+					type="button"
+					aria-pressed={annotation.starred}
+					aria-label={annotation.starred ? "Unstar" : "Star"}
+					className={`interactive px-1 text-sm leading-none ${
+						annotation.starred
+							? "text-amber-300"
+							: "text-slate-600 hover:text-amber-200"
+					}`}
+					onClick={() => toggleStar(conversationKey)}
+				>
+					{annotation.starred ? "★" : "☆"}
+				</button>
+				{annotation.tags.map((tag) => (
+					<span
+						key={tag}
+						className="inline-flex items-center gap-1 border border-slate-700 bg-slate-900/60 px-1.5 text-[10px] text-cyan-200"
+					>
+						{tag}
+						<button
+							type="button"
+							aria-label={`Remove tag ${tag}`}
+							className="interactive text-slate-500 hover:text-rose-300"
+							onClick={() => removeTag(conversationKey, tag)}
+						>
+							×
+						</button>
+					</span>
+				))}
+				<input
+					value={draft}
+					list={listId}
+					onChange={(event) => setDraft(event.target.value)}
+					onKeyDown={(event) => {
+						if (event.key === "Enter") {
+							event.preventDefault();
+							submitDraft();
+						}
+					}}
+					onBlur={() => draft && submitDraft()}
+					placeholder="+ tag"
+					className="w-24 border border-slate-800 bg-slate-950/80 px-1 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-400/70"
+				/>
+				<datalist id={listId}>
+					{suggestions.map((tag) => (
+						<option key={tag} value={tag} />
+					))}
+				</datalist>
+			</div>
+			<details open={annotation.note ? true : undefined}>
+				<summary className="cursor-pointer select-none text-[10px] uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300">
+					Note
+				</summary>
+				<textarea
+					value={annotation.note}
+					onChange={(event) => setNote(conversationKey, event.target.value)}
+					rows={3}
+					placeholder="Why this conversation matters…"
+					className="mt-1 w-full resize-y border border-slate-800 bg-slate-950/80 px-2 py-1 text-[11px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-400/70"
+				/>
+			</details>
+		</div>
+	);
+}
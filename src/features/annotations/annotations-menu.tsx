@@ -0,0 +1,85 @@
+import { useEffect, useRef, useState } from "react";
+import { HiddenInput } from "../../components/hidden-input";
+import { Toolbar } from "../../components/toolbar";
+import { numberFormat } from "../../lib/format";
+import { useAnnotations } from "./annotations-context";
+import { isEmptyAnnotation } from "./annotations-utils";
+
+export function AnnotationsMenu() {
+	const {
+		state: { annotations, tagCounts, starredCount, error },
+		actions: { exportAnnotations, importAnnotations },
+	} = useAnnotations();
+	const [isOpen, setIsOpen] = useState(false);
+	const menuRef = useRef<HTMLDivElement | null>(null);
+	const inputRef = useRef<HTMLInputElement | null>(null);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		const handleOutside = (event: MouseEvent | TouchEvent) => {
+			const target = event.target;
+			if (!(target instanceof Node)) return;
+			if (!menuRef.current?.contains(target)) {
+				setIsOpen(false);
+			}
+		};
+		document.addEventListener("mousedown", handleOutside);
+		document.addEventListener("touchstart", handleOutside);
+		return () => {
+			document.removeEventListener("mousedown", handleOutside);
+			document.removeEventListener("touchstart", handleOutside);
+		};
+	}, [isOpen]);
+
+	const annotatedCount = Object.values(annotations).filter(
+		(annotation) => !isEmptyAnnotation(annotation),
+	).length;
+
+	return (
+		<div className="relative h-full" ref={menuRef}>
+			<Toolbar.Button
+				aria-expanded={isOpen}
+				onClick={() => setIsOpen((open) => !open)}
+			>
+				Tags
+			</Toolbar.Button>
+			{isOpen ? (
+				<div className="absolute right-0 top-8 z-20 w-64 border border-slate-700 bg-slate-950/95 p-2 text-[11px] text-slate-300 shadow-lg">
+					<div>
+						{numberFormat.format(annotatedCount)} annotated ·{" "}
+						{numberFormat.format(starredCount)} starred ·{" "}
+						{numberFormat.format(tagCounts.length)} tags
+					</div>
+					<div className="mt-2 flex gap-2">
+						<Toolbar.Button
+							onClick={exportAnnotations}
+							disabled={annotatedCount === 0}
+							className="disabled:opacity-40"
+						>
+							Export JSON
+						</Toolbar.Button>
+						<Toolbar.Button onClick={() => inputRef.current?.click()}>
+							Import JSON
+						</Toolbar.Button>
+					</div>
+					<HiddenInput
+						ref={inputRef}
+						type="file"
+						accept=".json,application/json"
+						onChange={async (event) => {
+							const input = event.currentTarget;
+							const file = input.files?.[0];
+							if (file) await importAnnotations(file);
+							input.value = "";
+						}}
+					/>
+					<p className="mt-2 text-[10px] text-slate-500">
+						Imports merge with your annotations: tags are combined, the latest
+						edit wins for stars and notes.
+					</p>
+					{error ? <p className="mt-1 text-rose-300">{error}</p> : null}
+				</div>
+			) : null}
+		</div>
+	);
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import {
+	type Annotation,
+	createAnnotationsFile,
+	mergeAnnotations,
+	parseAnnotationsFile,
+} from "./annotations-utils";
+
+function annotation(overrides: Partial<Annotation> = {}): Annotation {
+	return { tags: [], starred: false, note: "", updatedAt: 0, ...overrides };
+}
+
+describe("mergeAnnotations", () => {
+	const current = {
+		a: annotation({
+			tags: ["useful"],
+			starred: true,
+			note: "mine",
+			updatedAt: 5,
+		}),
+		b: annotation({ tags: ["work"], updatedAt: 1 }),
+	};
+
+	it("takes tags, star and note from the newer side", () => {
+		const newer = annotation({
+			tags: ["bug repro"],
+			note: "theirs",
+			updatedAt: 9,
+		});
+		expect(mergeAnnotations(current, { a: newer }).a).toEqual(newer);
+	});
+
+	it("carries over a cleared note or a fully cleared annotation", () => {
+		const cleared = annotation({ updatedAt: 9 });
+		expect(
+			mergeAnnotations(current, {
+				a: annotation({ tags: ["useful"], starred: true, updatedAt: 9 }),
+			}).a,
+		).toMatchObject({ starred: true, note: "" });
+		expect(mergeAnnotations(current, { a: cleared }).a).toEqual(cleared);
+	});
+
+	it("keeps ours when the incoming edit is older", () => {
+		const merged = mergeAnnotations(current, {
+			a: annotation({ tags: ["old"], note: "stale", updatedAt: 2 }),
+			b: annotation({ updatedAt: 1 }),
+		});
+		expect(merged).toEqual(current);
+	});
+
+	it("adds new conversations and leaves the others alone", () => {
+		const added = annotation({ note: "new" });
+		const merged = mergeAnnotations(current, { c: added });
+		expect(merged).toEqual({ ...current, c: added });
+		expect(current).not.toHaveProperty("c");
+	});
+});
+
+describe("parseAnnotationsFile", () => {
+	it("reads an export back", () => {
+		const file = createAnnotationsFile({ a: annotation({ starred: true }) });
+		expect(parseAnnotationsFile(JSON.stringify(file))).toEqual(
+			file.annotations,
+		);
+	});
+
+	it("cleans up tags and drops invalid entries, keeping cleared ones", () => {
+		const text = JSON.stringify({
+			annotations: {
+				a: { tags: [" Bug  Repro ", "bug repro", 3, ""], note: 7 },
+				b: { tags: [], starred: "yes" },
+				c: "nope",
+				d: { tags: [], updatedAt: 4 },
+			},
+		});
+		expect(parseAnnotationsFile(text)).toEqual({
+			a: annotation({ tags: ["bug repro"] }),
+			d: annotation({ updatedAt: 4 }),
+		});
+	});
+
+	it("rejects other JSON", () => {
+		expect(() => parseAnnotationsFile("[]")).toThrow(
+			"Not an annotations export",
+		);
+	});
+});
@@ -0,0 +1,136 @@
+export type Annotation = {
+	tags: string[];
+	starred: boolean;
+	note: string;
+	updatedAt: number;
+};
+
+/**
+ * Annotations keyed by `conversation_id` (or record ID when that is missing).
+ * A cleared annotation stays as an empty entry with its `updatedAt`, so the
+ * clearing wins over an older copy when merging.
+ */
+export type AnnotationMap = Record<string, Annotation>;
+
+export type AnnotationsFile = {
+	version: 1;
+	exportedAt: string;
+	annotations: AnnotationMap;
+};
+
+export const presetTags = ["useful", "prompt template", "bug repro"];
+
+export const STARRED_FILTER = "★";
+
+const STORAGE_KEY = "convo-viewer.annotations";
+
+export const emptyAnnotation: Annotation = {
+	tags: [],
+	starred: false,
+	note: "",
+	updatedAt: 0,
+};
+
+export function normalizeTag(tag: string) {
+	return tag.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function isEmptyAnnotation(annotation: Annotation) {
+	return (
+		annotation.tags.length === 0 && !annotation.starred && !annotation.note
+	);
+}
+
+function toAnnotation(value: unknown): Annotation | null {
+	if (!value || typeof value !== "object") return null;
+	const record = value as Partial<Annotation>;
+	return {
+		tags: Array.isArray(record.tags)
+			? [
+					...new Set(
+						record.tags
+							.filter((tag): tag is string => typeof tag === "string")
+							.map(normalizeTag)
+							.filter(Boolean),
+					),
+				]
+			: [],
+		starred: record.starred === true,
+		note: typeof record.note === "string" ? record.note : "",
+		updatedAt: typeof record.updatedAt === "number" ? record.updatedAt : 0,
+	};
+}
+
+function toAnnotationMap(value: unknown) {
+	const annotations: AnnotationMap = {};
+	if (!value || typeof value !== "object") return annotations;
+	for (const [key, entry] of Object.entries(value)) {
+		const annotation = toAnnotation(entry);
+		if (
+			annotation &&
+			(!isEmptyAnnotation(annotation) || annotation.updatedAt > 0)
+		) {
+			annotations[key] = annotation;
+		}
+	}
+	return annotations;
+}
+
+export function loadAnnotations() {
+	try {
+		const raw = localStorage.getItem(STORAGE_KEY);
+		return raw ? toAnnotationMap(JSON.parse(raw)) : {};
+	} catch {
+		return {};
+	}
+}
+
+export function saveAnnotations(annotations: AnnotationMap) {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(annotations));
+	} catch (err) {
+		console.warn("[annotations] unable to save", err);
+	}
+}
+
+export function createAnnotationsFile(
+	annotations: AnnotationMap,
+): AnnotationsFile {
+	return {
+		version: 1,
+		exportedAt: new Date().toISOString(),
+		annotations,
+	};
+}
+
+export function parseAnnotationsFile(text: string) {
+	const parsed: unknown = JSON.parse(text);
+	if (
+		!parsed ||
+		typeof parsed !== "object" ||
+		!("annotations" in parsed) ||
+		typeof parsed.annotations !== "object"
+	) {
+		throw new Error("Not an annotations export: missing `annotations`.");
+	}
+	return toAnnotationMap(parsed.annotations);
+}
+
+/**
+ * Merges a teammate's annotations into ours: for each conversation the most
+ * recently edited side wins, so removed tags and cleared annotations carry
+ * over too.
+ */
+export function mergeAnnotations(
+	current: AnnotationMap,
+	incoming: AnnotationMap,
+) {
+	const merged: AnnotationMap = { ...current };
+	for (const [key, next] of Object.entries(incoming)) {
+		const existing = merged[key];
+		if (!existing || next.updatedAt > existing.updatedAt) {
+			merged[key] = next;
+		}
+	}
+	return merged;
+}
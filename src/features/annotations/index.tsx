@@ -0,0 +1,13 @@
+import { AnnotationsProvider, useAnnotations } from "./annotations-context";
+import { AnnotationsEditor } from "./annotations-editor";
+import { AnnotationsMenu } from "./annotations-menu";
+
+export const Annotations = {
+	Provider: AnnotationsProvider,
+	Editor: AnnotationsEditor,
+	Menu: AnnotationsMenu,
+	useAnnotations,
+};
+
+export type { Annotation, AnnotationMap } from "./annotations-utils";
+export { STARRED_FILTER } from "./annotations-utils";
@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from "react";
+import { downloadBlob } from "../../lib/download";
+import { formatBytes } from "../../lib/format";
+import { readZipEntry } from "../../lib/zip";
+import type { ImageAssetPointer, MessageAttachment } from "../conversations";
+import { type ResolvedAsset, useChat } from "./chat-context";
+
+const MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	pdf: "application/pdf",
+	csv: "text/csv",
+	txt: "text/plain",
+	md: "text/markdown",
+	json: "application/json",
+};
+
+export function isImagePointer(part: unknown): part is ImageAssetPointer {
+	return Boolean(
+		part &&
+			typeof part === "object" &&
+			"content_type" in part &&
+			part.content_type === "image_asset_pointer",
+	);
+}
+
+function guessMimeType(name: string) {
+	const extension = name.split(".").pop()?.toLowerCase() ?? "";
+	return MIME_TYPES[extension] ?? "";
+}
+
+function readAsset(asset: ResolvedAsset, type?: string) {
+	return readZipEntry(
+		asset.archive.blob,
+		asset.entry,
+		type || guessMimeType(asset.entry.name),
+	);
+}
+
+/** Inflates an archive entry into an object URL that lives as long as the caller. */
+function useAssetUrl(asset: ResolvedAsset | null) {
+	const [url, setUrl] = useState<string | null>(null);
+	const blob = asset?.archive.blob;
+	const entry = asset?.entry;
+
+	useEffect(() => {
+		setUrl(null);
+		if (!blob || !entry) return;
+		let cancelled = false;
+		let objectUrl: string | null = null;
+		readZipEntry(blob, entry, guessMimeType(entry.name))
+			.then((data) => {
+				if (cancelled) return;
+				objectUrl = URL.createObjectURL(data);
+				setUrl(objectUrl);
+			})
+			.catch((err) => {
+				console.warn("[chat] unreadable asset", { name: entry.name, err });
+			});
+		return () => {
+			cancelled = true;
+			if (objectUrl) URL.revokeObjectURL(objectUrl);
+		};
+	}, [blob, entry]);
+
+	return url;
+}
+
+async function downloadAsset(
+	asset: ResolvedAsset,
+	attachment: MessageAttachment,
+) {
+	const data = await readAsset(asset, attachment.mime_type);
+	downloadBlob(
+		data,
+		attachment.name || asset.entry.name.split("/").pop() || "file",
+	);
+}
+
+function Lightbox({
+	src,
+	alt,
+	onClose,
+}: {
+	src: string;
+	alt: string;
+	onClose: () => void;
+}) {
+	useEffect(() => {
+		// Captured, so Escape closes the image before any shortcut sees it.
+		const handleKey = (event: KeyboardEvent) => {
+			if (event.key !== "Escape") return;
+			event.preventDefault();
+			onClose();
+		};
+		window.addEventListener("keydown", handleKey, true);
+		return () => window.removeEventListener("keydown", handleKey, true);
+	}, [onClose]);
+
+	return (
+		<div
+			role="dialog"
+			aria-modal
+			aria-label="Image preview"
+			className="fixed inset-0 z-50"
+		>
+			<button
+				type="button"
+				aria-label="Close image"
+				className="flex h-full w-full cursor-zoom-out items-center justify-center bg-slate-950/90 p-6"
+				onClick={onClose}
+			>
+				<img
+					src={src}
+					alt={alt}
+					className="max-h-full max-w-full object-contain"
+				/>
+			</button>
+		</div>
+	);
+}
+
+function ImagePlaceholder({
+	image,
+	title,
+	isMissingArchive,
+}: {
+	image: ImageAssetPointer;
+	title: string;
+	isMissingArchive: boolean;
+}) {
+	return (
+		<span
+			className="border border-slate-800 bg-slate-900/60 px-1.5 py-0.5 text-[10px] text-slate-400"
+			title={title}
+		>
+			<span className="text-cyan-300">[img]</span>{" "}
+			{image.width && image.height ? `${image.width}×${image.height}` : "image"}
+			{image.size_bytes ? ` · ${formatBytes(image.size_bytes)}` : ""}
+			{isMissingArchive ? " · add the zip again" : ""}
+		</span>
+	);
+}
+
+/**
+ * Says why a restored conversation shows no images or attachments: the zip
+ * they live in isn't saved with the library.
+ */
+export function ChatArchiveNotice() {
+	const {
+		state: { messages, missingArchiveNames },
+	} = useChat();
+	const hasAssets = useMemo(
+		() =>
+			messages.some(
+				(message) =>
+					message.attachments.length > 0 ||
+					(message.content?.parts ?? []).some(isImagePointer),
+			),
+		[messages],
+	);
+	if (missingArchiveNames.length === 0 || !hasAssets) return null;
+
+	return (
+		<div className="border border-amber-400/40 bg-amber-400/10 px-2 py-1 text-[11px] text-amber-200">
+			Images and attachments aren't saved with the library. Add{" "}
+			{missingArchiveNames.join(", ")} again to see them.
+		</div>
+	);
+}
+
+export function AssetImage({ image }: { image: ImageAssetPointer }) {
+	const {
+		state: { missingArchiveNames },
+		meta: { resolveAsset },
+	} = useChat();
+	const asset = image.asset_pointer ? resolveAsset(image.asset_pointer) : null;
+	const url = useAssetUrl(asset);
+	const [isOpen, setIsOpen] = useState(false);
+
+	if (!url) {
+		return (
+			<ImagePlaceholder
+				image={image}
+				title={
+					asset
+						? "Loading…"
+						: `${image.asset_pointer ?? "image"} (not in a loaded export zip)`
+				}
+				isMissingArchive={!asset && missingArchiveNames.length > 0}
+			/>
+		);
+	}
+
+	const alt = asset?.entry.name ?? "Uploaded image";
+	return (
+		<>
+			<button
+				type="button"
+				className="interactive cursor-zoom-in border border-slate-800 bg-slate-900/60 p-0.5 hover:border-cyan-400/70"
+				title={alt}
+				onClick={() => setIsOpen(true)}
+			>
+				<img
+					src={url}
+					alt={alt}
+					loading="lazy"
+					className="max-h-40 max-w-56 object-contain"
+				/>
+			</button>
+			{isOpen ? (
+				<Lightbox src={url} alt={alt} onClose={() => setIsOpen(false)} />
+			) : null}
+		</>
+	);
+}
+
+export function AttachmentList({
+	attachments,
+}: {
+	attachments: MessageAttachment[];
+}) {
+	const {
+		state: { missingArchiveNames },
+		meta: { resolveAsset },
+	} = useChat();
+	// Images already render inline from their asset pointers.
+	const files = attachments.filter(
+		(attachment) => !attachment.mime_type?.startsWith("image/"),
+	);
+	if (files.length === 0) return null;
+
+	return (
+		<ul className="mt-1 flex flex-col gap-0.5 text-[10px] text-slate-400">
+			{files.map((attachment, index) => {
+				const asset = attachment.id ? resolveAsset(attachment.id) : null;
+				return (
+					<li
+						key={attachment.id ?? index}
+						className="flex items-center gap-2 border border-slate-800 bg-slate-900/60 px-1.5 py-0.5"
+					>
+						<span className="text-cyan-300">[file]</span>
+						<span className="min-w-0 truncate text-slate-200">
+							{attachment.name || attachment.id || "attachment"}
+						</span>
+						{attachment.size ? (
+							<span>{formatBytes(attachment.size)}</span>
+						) : null}
+						{asset ? (
+							<button
+								type="button"
+								className="interactive ml-auto text-cyan-300 hover:text-white"
+								onClick={() => {
+									void downloadAsset(asset, attachment).catch((err) =>
+										console.warn("[chat] download failed", err),
+									);
+								}}
+							>
+								Download
+							</button>
+						) : (
+							<span className="ml-auto text-slate-600">
+								{missingArchiveNames.length > 0
+									? "add the zip again"
+									: "not in export"}
+							</span>
+						)}
+					</li>
+				);
+			})}
+		</ul>
+	);
+}
@@ -1,12 +1,32 @@
 import {
 	createContext,
+	type MutableRefObject,
 	type ReactNode,
 	useContext,
 	useEffect,
+	useMemo,
+	useRef,
 	useState,
 } from "react";
-import { Conversations } from "../conversations";
-import { buildContextText, fallbackCopy } from "./chat-utils";
+import type { ZipEntry } from "../../lib/zip";
+import {
+	type BranchSelections,
+	type Conversation,
+	Conversations,
+	type DisplayMessage,
+	type ExportArchive,
+	extractAllMessages,
+	extractMessages,
+	findArchiveAsset,
+	getAssetFileId,
+	getBranchSelectionsTo,
+} from "../conversations";
+import {
+	buildContextText,
+	buildSearchPattern,
+	fallbackCopy,
+	findChatMatches,
+} from "./chat-utils";
 
 export type ChatMatch = {
 	messageId: string;
@@ -14,22 +34,69 @@ export type ChatMatch = {
 	end: number;
 };
 
+export type ChatSearchOptions = {
+	regex: boolean;
+	matchCase: boolean;
+	wholeWord: boolean;
+	role: "all" | "user" | "assistant";
+	/** Searches every branch, switching to the one holding the active match. */
+	allBranches: boolean;
+};
+
 type ChatState = {
+	conversation: Conversation | null;
+	/** True in chat tabs opened for one conversation. */
+	isPinned: boolean;
+	messages: DisplayMessage[];
+	branchSelections: BranchSelections;
+	/** Message picked for linking; shown highlighted. */
+	selectedMessageId: string | null;
 	query: string;
+	searchOptions: ChatSearchOptions;
+	/** Why the query isn't a valid regex, in regex mode. */
+	searchError: string | null;
 	matches: ChatMatch[];
 	activeMatchIndex: number;
 	copied: boolean;
+	/**
+	 * Zips the conversation came from that weren't re-opened since the library
+	 * was restored, so its images and attachments can't be shown.
+	 */
+	missingArchiveNames: string[];
 };
 
 type ChatActions = {
 	setQuery: (value: string | ((old: string) => string)) => void;
+	setSearchOptions: (value: Partial<ChatSearchOptions>) => void;
 	prevMatch: () => void;
 	nextMatch: () => void;
 	copyContext: () => void;
+	selectBranch: (parentId: string, childId: string) => void;
+	/** Picks a message, switching to its branch if it isn't shown. */
+	selectMessage: (messageId: string | null) => void;
 };
 
+export type ResolvedAsset = {
+	archive: ExportArchive;
+	entry: ZipEntry;
+};
+
+/**
+ * Scrolls the transcript to a message, mounted or not, or to the active match
+ * inside it. False if the message isn't on the shown branch.
+ */
+export type MessageScroller = (
+	messageId: string,
+	target: "message" | "match",
+) => boolean;
+
 type ChatMeta = {
 	scrollToMatch: (match: ChatMatch) => void;
+	scrollToMessage: (messageId: string) => void;
+	/** Set by the transcript, which owns the virtualizer. */
+	messageScrollerRef: MutableRefObject<MessageScroller | null>;
+	/** Finds an uploaded file by pointer or ID, preferring the conversation's own exports. */
+	resolveAsset: (pointer: string) => ResolvedAsset | null;
 };
 
 type ChatContextValue = {
@@ -38,6 +105,16 @@ type ChatContextValue = {
 	meta: ChatMeta;
 };
 
+const noSelections: BranchSelections = {};
+
+const defaultSearchOptions: ChatSearchOptions = {
+	regex: false,
+	matchCase: false,
+	wholeWord: false,
+	role: "all",
+	allBranches: false,
+};
+
 const ChatContext = createContext<ChatContextValue | null>(null);
 
 export function useChat() {
@@ -50,46 +127,157 @@ export function useChat() {
 
 type ChatProviderProps = {
 	children: ReactNode;
+	/**
+	 * Pins the chat to one conversation, by `getConversationKey`, instead of
+	 * following the table selection. Keys survive the library being replaced.
+	 */
+	conversationKey?: string;
 };
 
-export function ChatProvider({ children }: ChatProviderProps) {
+export function ChatProvider({ children, conversationKey }: ChatProviderProps) {
 	const {
-		state: { selectedConversation, selectedMessages },
+		state: {
+			conversations,
+			indexByKey,
+			selectedIndex: tableIndex,
+			sources,
+			conversationSources,
+		},
 	} = Conversations.useConversations();
+	const selectedIndex =
+		conversationKey === undefined
+			? tableIndex
+			: (indexByKey.get(conversationKey) ?? null);
+	const conversation =
+		selectedIndex === null ? null : (conversations[selectedIndex] ?? null);
+	const [branches, setBranches] = useState<{
+		index: number | null;
+		selections: BranchSelections;
+	}>({ index: null, selections: {} });
+	const [messageSelection, setMessageSelection] = useState<{
+		index: number | null;
+		messageId: string | null;
+	}>({ index: null, messageId: null });
 	const [query, setQuery] = useState("");
+	const [searchOptions, setSearchOptions] =
+		useState<ChatSearchOptions>(defaultSearchOptions);
 	const [matches, setMatches] = useState<ChatMatch[]>([]);
 	const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
 	const [copied, setCopied] = useState(false);
+	const messageScrollerRef = useRef<MessageScroller | null>(null);
+
+	// Branch choices belong to one conversation; selecting another starts fresh.
+	const branchSelections =
+		branches.index === selectedIndex ? branches.selections : noSelections;
+	const selectedMessageId =
+		messageSelection.index === selectedIndex
+			? messageSelection.messageId
+			: null;
+	const messages = useMemo(
+		() => (conversation ? extractMessages(conversation, branchSelections) : []),
+		[conversation, branchSelections],
+	);
+
+	const ownSourceIds = useMemo(
+		() =>
+			new Set(
+				selectedIndex === null
+					? []
+					: (conversationSources[selectedIndex] ?? []),
+			),
+		[conversationSources, selectedIndex],
+	);
+
+	const archives = useMemo(
+		() =>
+			[...sources]
+				.sort(
+					(a, b) =>
+						Number(ownSourceIds.has(b.id)) - Number(ownSourceIds.has(a.id)),
+				)
+				.flatMap((source) => (source.archive ? [source.archive] : [])),
+		[sources, ownSourceIds],
+	);
+
+	const missingArchiveNames = useMemo(() => {
+		const own = sources.filter((source) => ownSourceIds.has(source.id));
+		if (own.some((source) => source.archive)) return [];
+		return own
+			.filter((source) => source.isZip && !source.archive)
+			.map((source) => source.name);
+	}, [sources, ownSourceIds]);
+
+	const searchPattern = useMemo(
+		() => buildSearchPattern(query, searchOptions),
+		[query, searchOptions],
+	);
+	const searchError = typeof searchPattern === "string" ? searchPattern : null;
+	// Across branches the searched messages don't change with the shown branch,
+	// so switching to a match keeps its place in the list.
+	const allMessages = useMemo(
+		() =>
+			conversation && searchOptions.allBranches
+				? extractAllMessages(conversation)
+				: [],
+		[conversation, searchOptions.allBranches],
+	);
+	const searchedMessages = searchOptions.allBranches ? allMessages : messages;
+
+	// Read when a search runs; selecting a message doesn't rerun it.
+	const selectedMessageIdRef = useRef(selectedMessageId);
+	selectedMessageIdRef.current = selectedMessageId;
 
 	useEffect(() => {
-		const trimmed = query.trim().toLowerCase();
-		if (!trimmed) {
+		if (!(searchPattern instanceof RegExp)) {
 			setMatches([]);
 			setActiveMatchIndex(-1);
 			return;
 		}
 
-		const nextMatches: ChatMatch[] = [];
-		for (const message of selectedMessages) {
-			const haystack = message.text.toLowerCase();
-			let index = 0;
-			while (index < haystack.length) {
-				const found = haystack.indexOf(trimmed, index);
-				if (found === -1) break;
-				nextMatches.push({
-					messageId: message.id,
-					start: found,
-					end: found + trimmed.length,
-				});
-				index = found + trimmed.length;
-			}
-		}
+		const nextMatches = findChatMatches(
+			searchedMessages,
+			searchPattern,
+			searchOptions.role,
+		);
 		setMatches(nextMatches);
-		setActiveMatchIndex(nextMatches.length > 0 ? 0 : -1);
-	}, [query, selectedMessages]);
+		// Start from the selected message when it has a match.
+		const selectedMatchIndex = nextMatches.findIndex(
+			(match) => match.messageId === selectedMessageIdRef.current,
+		);
+		setActiveMatchIndex(
+			nextMatches.length > 0 ? Math.max(selectedMatchIndex, 0) : -1,
+		);
+	}, [searchPattern, searchedMessages, searchOptions.role]);
+
+	// A match on another branch switches the transcript to that branch, once:
+	// picking another branch afterwards doesn't snap back to the match.
+	const followedMatchRef = useRef<ChatMatch | null>(null);
+	useEffect(() => {
+		const match = matches[activeMatchIndex] ?? null;
+		if (match === followedMatchRef.current) return;
+		followedMatchRef.current = match;
+		if (!match || !conversation) return;
+		if (messages.some((message) => message.id === match.messageId)) return;
+		setBranches({
+			index: selectedIndex,
+			selections: {
+				...branchSelections,
+				...getBranchSelectionsTo(conversation, match.messageId),
+			},
+		});
+	}, [
+		matches,
+		activeMatchIndex,
+		conversation,
+		messages,
+		selectedIndex,
+		branchSelections,
+	]);
 
 	const actions: ChatActions = {
 		setQuery: (value) => setQuery(value),
+		setSearchOptions: (value) =>
+			setSearchOptions((old) => ({ ...old, ...value })),
 		prevMatch: () => {
 			if (matches.length === 0) return;
 			setActiveMatchIndex((current) =>
@@ -103,8 +291,8 @@ export function ChatProvider({ children }: ChatProviderProps) {
 			);
 		},
 		copyContext: async () => {
-			if (!selectedConversation) return;
-			const text = buildContextText(selectedConversation, selectedMessages);
+			if (!conversation) return;
+			const text = buildContextText(conversation, messages);
 			try {
 				await navigator.clipboard.writeText(text);
 				setCopied(true);
@@ -115,23 +303,66 @@ export function ChatProvider({ children }: ChatProviderProps) {
 				window.setTimeout(() => setCopied(false), 1600);
 			}
 		},
+		selectBranch: (parentId, childId) => {
+			setBranches({
+				index: selectedIndex,
+				selections: { ...branchSelections, [parentId]: childId },
+			});
+		},
+		selectMessage: (messageId) => {
+			setMessageSelection({ index: selectedIndex, messageId });
+			if (
+				!conversation ||
+				!messageId ||
+				messages.some((message) => message.id === messageId)
+			) {
+				return;
+			}
+			setBranches({
+				index: selectedIndex,
+				selections: {
+					...branchSelections,
+					...getBranchSelectionsTo(conversation, messageId),
+				},
+			});
+		},
 	};
 
 	const meta: ChatMeta = {
 		scrollToMatch: (match) => {
-			const el = document.querySelector(
-				`[data-chat-message-id="${match.messageId}"]`,
-			);
-			if (el instanceof HTMLElement) {
-				el.scrollIntoView({ block: "center", behavior: "smooth" });
+			messageScrollerRef.current?.(match.messageId, "match");
+		},
+		scrollToMessage: (messageId) => {
+			messageScrollerRef.current?.(messageId, "message");
+		},
+		messageScrollerRef,
+		resolveAsset: (pointer) => {
+			const fileId = getAssetFileId(pointer);
+			for (const archive of archives) {
+				const entry = findArchiveAsset(archive, fileId);
+				if (entry) return { archive, entry };
 			}
+			return null;
 		},
 	};
 
 	return (
 		<ChatContext.Provider
 			value={{
-				state: { query, matches, activeMatchIndex, copied },
+				state: {
+					conversation,
+					isPinned: conversationKey !== undefined,
+					messages,
+					branchSelections,
+					selectedMessageId,
+					query,
+					searchOptions,
+					searchError,
+					matches,
+					activeMatchIndex,
+					copied,
+					missingArchiveNames,
+				},
 				actions,
 				meta,
 			}}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { normalizeMathDelimiters } from "./chat-markdown";
+
+describe("normalizeMathDelimiters", () => {
+	it("rewrites paired inline and display delimiters", () => {
+		expect(normalizeMathDelimiters("So \\(x^2\\) and \\[y\\]")).toBe(
+			"So $$x^2$$ and $$y$$",
+		);
+		expect(normalizeMathDelimiters("\\[\na + b\n\\]")).toBe("$$\na + b\n$$");
+	});
+
+	it("keeps offsets", () => {
+		const text = "a \\(b\\) c";
+		expect(normalizeMathDelimiters(text)).toHaveLength(text.length);
+	});
+
+	it("leaves escaped backslashes alone", () => {
+		expect(normalizeMathDelimiters("C:\\\\[dir\\\\]")).toBe("C:\\\\[dir\\\\]");
+	});
+
+	it("leaves unpaired escapes in prose alone", () => {
+		expect(normalizeMathDelimiters("a literal \\[ bracket")).toBe(
+			"a literal \\[ bracket",
+		);
+		expect(normalizeMathDelimiters("\\[ then \\)")).toBe("\\[ then \\)");
+	});
+
+	it("skips code spans and fences", () => {
+		expect(normalizeMathDelimiters("`\\[a\\]` and ``x ` \\(y\\)``")).toBe(
+			"`\\[a\\]` and ``x ` \\(y\\)``",
+		);
+		const fenced = "```\nre = /\\[a\\]/\n```\n\\(z\\)";
+		expect(normalizeMathDelimiters(fenced)).toBe(
+			"```\nre = /\\[a\\]/\n```\n$$z$$",
+		);
+	});
+});
@@ -0,0 +1,264 @@
+import type { Element, ElementContent, Root, RootContent, Text } from "hast";
+import { memo, type ReactNode, useState } from "react";
+import Markdown, { type Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import type { ChatMatch } from "./chat-context";
+import { fallbackCopy } from "./chat-utils";
+
+/** Flags the characters of `text` inside fenced code blocks and code spans. */
+function getCodeMask(text: string) {
+	const mask = new Uint8Array(text.length);
+	let offset = 0;
+	let fence: string | null = null;
+	for (const line of text.split("\n")) {
+		const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+		if (fence || marker) mask.fill(1, offset, offset + line.length);
+		if (!fence) {
+			fence = marker ?? null;
+		} else if (
+			marker?.[0] === fence[0] &&
+			marker.length >= fence.length &&
+			!line.trim().slice(marker.length)
+		) {
+			fence = null;
+		}
+		offset += line.length + 1;
+	}
+
+	// A code span closes on the next run of exactly as many backticks.
+	const runs = [...text.matchAll(/`+/g)].filter((run) => !mask[run.index]);
+	for (let i = 0; i < runs.length; i += 1) {
+		const open = runs[i];
+		const close = runs.findIndex(
+			(run, j) => j > i && run[0].length === open[0].length,
+		);
+		if (close === -1) continue;
+		const end = runs[close].index + runs[close][0].length;
+		mask.fill(1, open.index, end);
+		i = close;
+	}
+	return mask;
+}
+
+/**
+ * Rewrites `\(…\)` and `\[…\]`, which ChatGPT uses for math, to `$$`. Both
+ * are two characters, so offsets into the text (and search matches) still
+ * line up. Only paired delimiters outside code count, and an escaped
+ * backslash (`\\[`) is left alone, so Markdown escapes in prose survive.
+ */
+export function normalizeMathDelimiters(text: string) {
+	const mask = getCodeMask(text);
+	const delimiters: Array<{ index: number; char: string }> = [];
+	for (const found of text.matchAll(/\\+[()[\]]/g)) {
+		const slashes = found[0].length - 1;
+		const index = found.index + slashes - 1;
+		if (slashes % 2 === 1 && !mask[index]) {
+			delimiters.push({ index, char: found[0][slashes] });
+		}
+	}
+
+	const chars = text.split("");
+	for (let i = 0; i < delimiters.length - 1; i += 1) {
+		const open = delimiters[i];
+		const close = delimiters[i + 1];
+		if (
+			(open.char === "(" && close.char === ")") ||
+			(open.char === "[" && close.char === "]")
+		) {
+			for (const { index } of [open, close]) {
+				chars[index] = "$";
+				chars[index + 1] = "$";
+			}
+			i += 1;
+		}
+	}
+	return chars.join("");
+}
+
+type HighlightOptions = {
+	matches: ChatMatch[];
+	activeMatch: ChatMatch | null;
+};
+
+function isHidden(element: Element) {
+	const className = element.properties.className;
+	return Array.isArray(className) && className.includes("katex");
+}
+
+/**
+ * Wraps search matches in the rendered tree. Matches are offsets into the
+ * Markdown source, so each text node is placed by its source position; text
+ * without one (highlighted code) is found in order inside its parent's span.
+ */
+function rehypeChatHighlights({ matches, activeMatch }: HighlightOptions) {
+	return (tree: Root, file: { value: unknown }) => {
+		if (matches.length === 0) return;
+		const source = String(file.value);
+		let cursor = 0;
+
+		const locate = (node: Text, end: number) => {
+			const start = node.position?.start.offset;
+			const stop = node.position?.end.offset;
+			if (
+				start !== undefined &&
+				stop !== undefined &&
+				source.slice(start, stop) === node.value
+			) {
+				return start;
+			}
+			if (!node.value.trim()) return -1;
+			const found = source.indexOf(node.value, cursor);
+			return found === -1 || found + node.value.length > end ? -1 : found;
+		};
+
+		const split = (node: Text, offset: number): ElementContent[] => {
+			const pieces: ElementContent[] = [];
+			let local = 0;
+			for (const match of matches) {
+				const start = Math.max(match.start - offset, local);
+				const end = Math.min(match.end - offset, node.value.length);
+				if (end <= start) continue;
+				if (start > local) {
+					pieces.push({ type: "text", value: node.value.slice(local, start) });
+				}
+				const isActive =
+					activeMatch?.messageId === match.messageId &&
+					activeMatch.start === match.start;
+				pieces.push({
+					type: "element",
+					tagName: "span",
+					properties: {
+						className: [isActive ? "chat-highlight-active" : "chat-highlight"],
+					},
+					children: [{ type: "text", value: node.value.slice(start, end) }],
+				});
+				local = end;
+			}
+			if (pieces.length === 0) return [node];
+			if (local < node.value.length) {
+				pieces.push({ type: "text", value: node.value.slice(local) });
+			}
+			return pieces;
+		};
+
+		const visit = (parent: Root | Element, end: number) => {
+			const children: Array<RootContent | ElementContent> = [];
+			for (const child of parent.children) {
+				if (child.type === "text") {
+					const offset = locate(child, end);
+					if (offset === -1) {
+						children.push(child);
+						continue;
+					}
+					cursor = offset + child.value.length;
+					children.push(...split(child, offset));
+					continue;
+				}
+				if (child.type === "element" && !isHidden(child)) {
+					const start = child.position?.start.offset;
+					if (start !== undefined) cursor = Math.max(cursor, start);
+					visit(child, child.position?.end.offset ?? end);
+				}
+				children.push(child);
+			}
+			parent.children = children as typeof parent.children;
+		};
+
+		visit(tree, source.length);
+	};
+}
+
+function getNodeText(node: Element | ElementContent): string {
+	if (node.type === "text") return node.value;
+	if (node.type !== "element") return "";
+	return node.children.map(getNodeText).join("");
+}
+
+type CodeBlockProps = {
+	node?: Element;
+	children?: ReactNode;
+};
+
+function CodeBlock({ node, children }: CodeBlockProps) {
+	const [copied, setCopied] = useState(false);
+	const code = node?.children.find(
+		(child): child is Element =>
+			child.type === "element" && child.tagName === "code",
+	);
+	const className = code?.properties.className;
+	const language = Array.isArray(className)
+		? className
+				.map(String)
+				.find((name) => name.startsWith("language-"))
+				?.slice("language-".length)
+		: undefined;
+
+	const copy = async () => {
+		const text = code ? getNodeText(code).replace(/\n$/, "") : "";
+		try {
+			await navigator.clipboard.writeText(text);
+		} catch {
+			fallbackCopy(text);
+		}
+		setCopied(true);
+		window.setTimeout(() => setCopied(false), 1600);
+	};
+
+	return (
+		<div className="chat-code-block">
+			<div className="flex items-center justify-between border-b border-slate-800 px-2 py-0.5 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+				<span>{language || "code"}</span>
+				<button
+					type="button"
+					className="interactive tracking-normal normal-case text-cyan-300 hover:text-white"
+					onClick={copy}
+				>
+					{copied ? "Copied" : "Copy"}
+				</button>
+			</div>
+			<pre>{children}</pre>
+		</div>
+	);
+}
+
+const components: Components = {
+	pre: ({ node, children }) => <CodeBlock node={node}>{children}</CodeBlock>,
+	a: ({ node: _node, ...props }) => (
+		<a {...props} target="_blank" rel="noopener noreferrer" />
+	),
+};
+
+type MarkdownContentProps = {
+	text: string;
+	matches: ChatMatch[];
+	activeMatch: ChatMatch | null;
+};
+
+/** Renders message Markdown; raw HTML in the text is shown, never injected. */
+export const MarkdownContent = memo(function MarkdownContent({
+	text,
+	matches,
+	activeMatch,
+}: MarkdownContentProps) {
+	return (
+		<div className="chat-markdown">
+			<Markdown
+				remarkPlugins={[
+					remarkGfm,
+					[remarkMath, { singleDollarTextMath: false }],
+				]}
+				rehypePlugins={[
+					[rehypeKatex, { throwOnError: false }],
+					[rehypeHighlight, { detect: false }],
+					[rehypeChatHighlights, { matches, activeMatch }],
+				]}
+				components={components}
+			>
+				{normalizeMathDelimiters(text)}
+			</Markdown>
+		</div>
+	);
+});
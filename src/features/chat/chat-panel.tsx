@@ -1,14 +1,43 @@
 import type { IDockviewPanelProps } from "dockview";
+import { Shortcuts } from "../shortcuts";
+import { ChatArchiveNotice } from "./chat-assets";
+import { ChatProvider } from "./chat-context";
 import { ChatHeader } from "./chat-header";
 import { ChatSearch } from "./chat-search";
 import { ChatTranscript } from "./chat-transcript";
 
-export function ChatPanel(_props: IDockviewPanelProps) {
+export function ChatPanel(props: IDockviewPanelProps) {
 	return (
-		<div className="h-full flex flex-col gap-2 p-2">
-			<ChatHeader />
-			<ChatSearch />
-			<ChatTranscript />
-		</div>
+		<Shortcuts.Scope id={props.api.id}>
+			<div className="h-full flex flex-col gap-2 p-2">
+				<ChatHeader />
+				<ChatSearch />
+				<ChatArchiveNotice />
+				<ChatTranscript />
+			</div>
+		</Shortcuts.Scope>
+	);
+}
+
+export type ChatTabParams = {
+	conversationKey: string;
+};
+
+/** A chat panel pinned to one conversation, opened from bulk actions. */
+export function ChatTabPanel({
+	api,
+	params,
+}: IDockviewPanelProps<ChatTabParams>) {
+	return (
+		<ChatProvider conversationKey={params.conversationKey}>
+			<Shortcuts.Scope id={api.id}>
+				<div className="h-full flex flex-col gap-2 p-2">
+					<ChatHeader />
+					<ChatSearch />
+					<ChatArchiveNotice />
+					<ChatTranscript />
+				</div>
+			</Shortcuts.Scope>
+		</ChatProvider>
 	);
 }
@@ -0,0 +1,165 @@
+import type { ReactNode } from "react";
+import type { DisplayMessage } from "../conversations";
+import { AssetImage, AttachmentList, isImagePointer } from "./chat-assets";
+import type { ChatMatch } from "./chat-context";
+import { MarkdownContent } from "./chat-markdown";
+
+export type MessageRendererProps = {
+	message: DisplayMessage;
+	highlights: ReactNode;
+	hasMatches: boolean;
+	matches: ChatMatch[];
+	activeMatch: ChatMatch | null;
+	/** Show the text as written instead of rendering its Markdown. */
+	raw: boolean;
+};
+
+/** Content types whose text is Markdown. */
+export const markdownContentTypes = new Set(["text", "multimodal_text"]);
+
+type MessageRenderer = (props: MessageRendererProps) => ReactNode;
+
+function Label({ children }: { children: ReactNode }) {
+	return (
+		<span className="block text-[10px] uppercase tracking-[0.2em] text-slate-500 mb-1">
+			{children}
+		</span>
+	);
+}
+
+function TextContent({
+	message,
+	highlights,
+	matches,
+	activeMatch,
+	raw,
+}: MessageRendererProps) {
+	if (raw || !message.text) {
+		return <div className="whitespace-pre-wrap">{highlights}</div>;
+	}
+	return (
+		<MarkdownContent
+			text={message.text}
+			matches={matches}
+			activeMatch={activeMatch}
+		/>
+	);
+}
+
+function MultimodalContent(props: MessageRendererProps) {
+	const { message } = props;
+	const images = (message.content?.parts ?? []).filter(isImagePointer);
+	return (
+		<div className="flex flex-col gap-1">
+			{images.length > 0 ? (
+				<div className="flex flex-wrap items-start gap-1">
+					{images.map((image, index) => (
+						<AssetImage key={image.asset_pointer ?? index} image={image} />
+					))}
+				</div>
+			) : null}
+			{message.text ? <TextContent {...props} /> : null}
+		</div>
+	);
+}
+
+function CodeContent({ message, highlights }: MessageRendererProps) {
+	return (
+		<div>
+			<Label>{message.content?.language || "code"}</Label>
+			<pre className="whitespace-pre-wrap border border-slate-800 bg-slate-950 p-2 text-[11px] text-slate-200">
+				<code>{highlights}</code>
+			</pre>
+		</div>
+	);
+}
+
+function ExecutionOutputContent({ highlights }: MessageRendererProps) {
+	return (
+		<div>
+			<Label>Output</Label>
+			<pre className="whitespace-pre-wrap border-l-2 border-emerald-500/40 bg-slate-950 px-2 py-1 text-[11px] text-emerald-200/90">
+				{highlights}
+			</pre>
+		</div>
+	);
+}
+
+function BrowsingContent({ highlights }: MessageRendererProps) {
+	return (
+		<div>
+			<Label>Browsing result</Label>
+			<div className="whitespace-pre-wrap border-l-2 border-sky-500/40 pl-2 text-slate-400">
+				{highlights}
+			</div>
+		</div>
+	);
+}
+
+function CollapsibleContent({
+	label,
+	highlights,
+	hasMatches,
+}: MessageRendererProps & { label: string }) {
+	return (
+		<details open={hasMatches || undefined}>
+			<summary className="cursor-pointer select-none text-[10px] uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300">
+				{label}
+			</summary>
+			<div className="mt-1 whitespace-pre-wrap border-l-2 border-slate-700 pl-2 text-slate-400">
+				{highlights}
+			</div>
+		</details>
+	);
+}
+
+function ThoughtsContent(props: MessageRendererProps) {
+	return <CollapsibleContent {...props} label="Thoughts" />;
+}
+
+function ReasoningRecapContent(props: MessageRendererProps) {
+	return <CollapsibleContent {...props} label="Reasoning" />;
+}
+
+function UserContextContent(props: MessageRendererProps) {
+	return <CollapsibleContent {...props} label="Custom instructions" />;
+}
+
+function RawContent({ message, highlights }: MessageRendererProps) {
+	return (
+		<div className="flex flex-col gap-1">
+			{message.text ? (
+				<div className="whitespace-pre-wrap">{highlights}</div>
+			) : null}
+			<details>
+				<summary className="cursor-pointer select-none text-[10px] uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300">
+					{message.contentType}
+				</summary>
+				<pre className="mt-1 max-h-80 overflow-auto whitespace-pre-wrap border border-slate-800 bg-slate-950 p-2 text-[10px] text-slate-400">
+					{JSON.stringify(message.content ?? null, null, 2)}
+				</pre>
+			</details>
+		</div>
+	);
+}
+
+export const messageRenderers: Record<string, MessageRenderer> = {
+	text: TextContent,
+	multimodal_text: MultimodalContent,
+	code: CodeContent,
+	execution_output: ExecutionOutputContent,
+	tether_browsing_display: BrowsingContent,
+	thoughts: ThoughtsContent,
+	reasoning_recap: ReasoningRecapContent,
+	user_editable_context: UserContextContent,
+};
+
+export function MessageContent(props: MessageRendererProps) {
+	const Renderer = messageRenderers[props.message.contentType] ?? RawContent;
+	return (
+		<>
+			<Renderer {...props} />
+			<AttachmentList attachments={props.message.attachments} />
+		</>
+	);
+}
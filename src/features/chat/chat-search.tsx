@@ -1,26 +1,110 @@
+import { useMemo, useRef } from "react";
 import { Toolbar } from "../../components/toolbar";
-import { useChat } from "./chat-context";
+import { Shortcuts } from "../shortcuts";
+import { type ChatSearchOptions, useChat } from "./chat-context";
+
+const toggleClass =
+	"interactive px-1.5 font-mono tracking-normal normal-case hover:text-white transition";
+
+const toggles: Array<{
+	id: "regex" | "matchCase" | "wholeWord" | "allBranches";
+	label: string;
+	title: string;
+}> = [
+	{ id: "regex", label: ".*", title: "Regular expression" },
+	{ id: "matchCase", label: "Aa", title: "Match case" },
+	{ id: "wholeWord", label: "W", title: "Whole word" },
+	{ id: "allBranches", label: "Branches", title: "Search all branches" },
+];
 
 export function ChatSearch() {
 	const {
-		state: { query, matches, activeMatchIndex },
-		actions: { setQuery, prevMatch, nextMatch },
+		state: {
+			messages,
+			query,
+			searchOptions,
+			searchError,
+			matches,
+			activeMatchIndex,
+		},
+		actions: { setQuery, setSearchOptions, prevMatch, nextMatch },
 	} = useChat();
+	const inputRef = useRef<HTMLInputElement | null>(null);
+
+	// Only counted when searching all branches; otherwise every match is shown.
+	const hiddenCount = useMemo(() => {
+		if (!searchOptions.allBranches) return 0;
+		const shownIds = new Set(messages.map((message) => message.id));
+		return matches.filter((match) => !shownIds.has(match.messageId)).length;
+	}, [searchOptions.allBranches, messages, matches]);
+
+	Shortcuts.useShortcutHandlers({
+		focusFilter: () => {
+			inputRef.current?.focus();
+			inputRef.current?.select();
+		},
+		clear: () => {
+			setQuery("");
+			inputRef.current?.blur();
+		},
+		nextMatch,
+		prevMatch,
+	});
 
 	return (
 		<Toolbar
-			className="flex items-center gap-2"
+			className="flex flex-col gap-1"
 			rowClass="flex items-center gap-2 h-7"
 		>
 			<Toolbar.Row className="w-full">
 				<span className="text-slate-500">[?]</span>
 				<Toolbar.Input
+					ref={inputRef}
 					value={query}
 					onChange={(event) => setQuery(event.target.value)}
-					placeholder="Search this chat"
-					className="interactive w-full py-1"
+					placeholder={
+						searchOptions.regex
+							? "Search this chat (regex)"
+							: "Search this chat"
+					}
+					aria-invalid={searchError !== null}
+					className={`interactive w-full py-1 ${
+						searchError ? "border-rose-400/70" : ""
+					}`}
 				/>
 				<div className="flex items-center gap-1 text-[10px] text-slate-500 whitespace-nowrap">
+					{toggles.map((toggle) => (
+						<Toolbar.Button
+							key={toggle.id}
+							title={toggle.title}
+							aria-label={toggle.title}
+							aria-pressed={searchOptions[toggle.id]}
+							onClick={() =>
+								setSearchOptions({ [toggle.id]: !searchOptions[toggle.id] })
+							}
+							className={`${toggleClass} ${
+								searchOptions[toggle.id]
+									? "border-cyan-400/70 text-cyan-200"
+									: "hover:border-cyan-400/70"
+							}`}
+						>
+							{toggle.label}
+						</Toolbar.Button>
+					))}
+					<select
+						aria-label="Search messages from"
+						className="interactive h-full border border-slate-800 bg-slate-950/80 px-1 text-[11px] text-slate-200 focus:outline-none focus:border-cyan-400/70"
+						value={searchOptions.role}
+						onChange={(event) =>
+							setSearchOptions({
+								role: event.target.value as ChatSearchOptions["role"],
+							})
+						}
+					>
+						<option value="all">All</option>
+						<option value="user">User</option>
+						<option value="assistant">Assistant</option>
+					</select>
 					<Toolbar.Button
 						onClick={prevMatch}
 						className="interactive px-1.5 tracking-normal hover:border-cyan-400/70 hover:text-white transition"
@@ -39,9 +123,15 @@ export function ChatSearch() {
 						{matches.length === 0
 							? "0/0"
 							: `${activeMatchIndex + 1}/${matches.length}`}
+						{hiddenCount > 0 && `, ${hiddenCount} on other branches`}
 					</span>
 				</div>
 			</Toolbar.Row>
+			{searchError && (
+				<p role="alert" className="truncate text-[10px] text-rose-300">
+					{searchError}
+				</p>
+			)}
 		</Toolbar>
 	);
 }
@@ -1,25 +1,102 @@
-import { useEffect, useMemo } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { formatTimestamp } from "../../lib/format";
-import { Conversations } from "../conversations";
+import { Diff } from "../diff";
 import type { ChatMatch } from "./chat-context";
 import { useChat } from "./chat-context";
+import { MessageContent, markdownContentTypes } from "./chat-renderers";
 import { renderChatHighlights } from "./chat-utils";
 
+const ESTIMATED_ROW_HEIGHT = 120;
+
+// Shared so memoized Markdown skips messages without matches.
+const noMatches: ChatMatch[] = [];
+
 export function ChatTranscript() {
 	const {
-		state: { selectedConversation, selectedMessages },
-	} = Conversations.useConversations();
-	const {
-		state: { matches, activeMatchIndex },
-		meta: { scrollToMatch },
+		state: {
+			conversation: selectedConversation,
+			isPinned,
+			messages: selectedMessages,
+			matches,
+			activeMatchIndex,
+			selectedMessageId,
+		},
+		actions: { selectBranch, selectMessage },
+		meta: { scrollToMatch, messageScrollerRef },
 	} = useChat();
+	const {
+		meta: { getAddedMessageIds },
+	} = Diff.useDiff();
+	const addedMessageIds = getAddedMessageIds(selectedConversation);
+	// Messages flipped away from their default: Markdown for replies, raw for
+	// user prompts, as ChatGPT shows them.
+	const [flippedIds, setFlippedIds] = useState<Set<string>>(() => new Set());
+
+	const toggleRaw = (messageId: string) =>
+		setFlippedIds((old) => {
+			const next = new Set(old);
+			if (!next.delete(messageId)) next.add(messageId);
+			return next;
+		});
+
+	const scrollRef = useRef<HTMLDivElement | null>(null);
+	const virtualizer = useVirtualizer({
+		count: selectedMessages.length,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ESTIMATED_ROW_HEIGHT,
+		overscan: 4,
+		getItemKey: (index) => selectedMessages[index]?.id ?? index,
+	});
+	const virtualRows = virtualizer.getVirtualItems();
+
+	// Rows off screen aren't in the DOM, so jumps go through the virtualizer.
+	messageScrollerRef.current = (messageId, target) => {
+		const index = selectedMessages.findIndex(
+			(message) => message.id === messageId,
+		);
+		if (index < 0) return false;
+		virtualizer.scrollToIndex(index, {
+			align: target === "match" ? "center" : "start",
+		});
+		if (target === "match") {
+			// Once the row is mounted, centre the match itself; a long message
+			// can be taller than the panel.
+			window.requestAnimationFrame(() =>
+				window.requestAnimationFrame(() => {
+					const el = scrollRef.current?.querySelector(
+						`[data-index="${index}"] .chat-highlight-active`,
+					);
+					if (el instanceof HTMLElement) {
+						el.scrollIntoView({ block: "center" });
+					}
+				}),
+			);
+		}
+		return true;
+	};
+
+	// A different conversation starts at its first message.
+	const shownConversationRef = useRef(selectedConversation);
+	useEffect(() => {
+		if (shownConversationRef.current === selectedConversation) return;
+		shownConversationRef.current = selectedConversation;
+		virtualizer.scrollToOffset(0);
+	}, [selectedConversation, virtualizer]);
 
+	// A match on another branch is scrolled to once its branch is shown.
+	const activeMatch =
+		activeMatchIndex >= 0 ? (matches[activeMatchIndex] ?? null) : null;
+	const isActiveMatchShown = selectedMessages.some(
+		(message) => message.id === activeMatch?.messageId,
+	);
+	const scrolledMatchRef = useRef<ChatMatch | null>(null);
 	useEffect(() => {
-		if (activeMatchIndex < 0) return;
-		const match = matches[activeMatchIndex];
-		if (!match) return;
-		scrollToMatch(match);
-	}, [activeMatchIndex, matches, scrollToMatch]);
+		if (!activeMatch || !isActiveMatchShown) return;
+		if (scrolledMatchRef.current === activeMatch) return;
+		scrolledMatchRef.current = activeMatch;
+		scrollToMatch(activeMatch);
+	}, [activeMatch, isActiveMatchShown, scrollToMatch]);
 
 	// Optimize match lookup: Group matches by messageId to avoid O(N*M) filtering in the render loop.
 	// This reduces complexity to O(N + M) where N is matches and M is messages.
@@ -37,45 +114,124 @@ export function ChatTranscript() {
 	}, [matches]);
 
 	return (
-		<div className="flex-1 border border-slate-800 bg-slate-950/50 p-2 overflow-auto">
+		<div
+			ref={scrollRef}
+			className="flex-1 border border-slate-800 bg-slate-950/50 p-2 overflow-auto"
+		>
 			{!selectedConversation ? (
 				<div className="text-center text-slate-600 text-[11px] py-8">
-					Select a conversation.
+					{isPinned
+						? "This conversation isn't in the open library."
+						: "Select a conversation."}
 				</div>
 			) : selectedMessages.length === 0 ? (
 				<div className="text-center text-slate-600 text-[11px] py-8">
 					No messages to display.
 				</div>
 			) : (
-				<div className="flex flex-col gap-2">
-					{selectedMessages.map((message) => {
+				<div
+					className="relative w-full"
+					style={{ height: virtualizer.getTotalSize() }}
+				>
+					{virtualRows.map((virtualRow) => {
+						const message = selectedMessages[virtualRow.index];
 						const role = message.authorRole;
 						const isUser = role === "user";
 						const isAssistant = role === "assistant";
-						const messageMatches = matchesByMessageId.get(message.id) || [];
-						const activeMatch =
-							activeMatchIndex >= 0 ? matches[activeMatchIndex] : null;
+						const messageMatches =
+							matchesByMessageId.get(message.id) ?? noMatches;
+						const isNew = addedMessageIds?.has(message.id) ?? false;
+						const hasMarkdown = markdownContentTypes.has(message.contentType);
+						const raw = isUser !== flippedIds.has(message.id);
+						const isSelected = message.id === selectedMessageId;
 						return (
 							<div
-								key={message.id}
-								className={`grid grid-cols-[80px_1fr] gap-2 text-[11px] ${
+								key={virtualRow.key}
+								ref={virtualizer.measureElement}
+								data-index={virtualRow.index}
+								style={{ transform: `translateY(${virtualRow.start}px)` }}
+								className={`absolute left-0 top-0 grid w-full grid-cols-[80px_1fr] gap-2 pb-2 text-[11px] ${
 									isUser
 										? "text-cyan-100"
 										: isAssistant
 											? "text-slate-200"
 											: "text-slate-400"
+								}${isNew ? " chat-diff-added" : ""}${
+									isSelected ? " chat-message-selected" : ""
 								}`}
 								data-chat-message-id={message.id}
 							>
 								<div className="text-[10px] uppercase tracking-[0.2em] text-slate-500 truncate pr-1">
+									<button
+										type="button"
+										aria-pressed={isSelected}
+										title={
+											isSelected
+												? "Unlink this message"
+												: "Link to this message"
+										}
+										className={`interactive mr-1 ${
+											isSelected
+												? "text-cyan-300"
+												: "text-slate-600 hover:text-cyan-300"
+										}`}
+										onClick={() =>
+											selectMessage(isSelected ? null : message.id)
+										}
+									>
+										#
+									</button>
 									{role || "other"}
+									{message.modelSlug ? (
+										<span
+											className="mt-0.5 block w-fit max-w-full truncate border border-slate-800 px-1 normal-case tracking-normal text-slate-400"
+											title={`Model: ${message.modelSlug}`}
+										>
+											{message.modelSlug}
+										</span>
+									) : null}
+									{isNew ? (
+										<span className="block text-emerald-300">new</span>
+									) : null}
+									{hasMarkdown && message.text ? (
+										<button
+											type="button"
+											aria-pressed={raw}
+											title={raw ? "Render Markdown" : "Show raw text"}
+											className="interactive mt-1 block border border-slate-800 px-1 tracking-normal normal-case text-slate-500 hover:border-cyan-400/70 hover:text-cyan-300"
+											onClick={() => toggleRaw(message.id)}
+										>
+											{raw ? "raw" : "md"}
+										</button>
+									) : null}
+									{message.parentId && message.siblingIds.length > 1 ? (
+										<BranchSwitcher
+											current={message.id}
+											siblings={message.siblingIds}
+											onSelect={(childId) =>
+												message.parentId &&
+												selectBranch(message.parentId, childId)
+											}
+										/>
+									) : null}
 								</div>
-								<div className="leading-relaxed whitespace-pre-wrap">
-									{renderChatHighlights(
-										message.text || "—",
-										messageMatches,
-										activeMatch?.messageId === message.id ? activeMatch : null,
-									)}
+								<div className="leading-relaxed min-w-0">
+									<MessageContent
+										message={message}
+										hasMatches={messageMatches.length > 0}
+										matches={messageMatches}
+										activeMatch={
+											activeMatch?.messageId === message.id ? activeMatch : null
+										}
+										raw={raw}
+										highlights={renderChatHighlights(
+											message.text || "—",
+											messageMatches,
+											activeMatch?.messageId === message.id
+												? activeMatch
+												: null,
+										)}
+									/>
 									<span className="block text-[10px] text-slate-600 mt-1">
 										{formatTimestamp(message.createTime)}
 									</span>
@@ -88,3 +244,41 @@ export function ChatTranscript() {
 		</div>
 	);
 }
+
+type BranchSwitcherProps = {
+	current: string;
+	siblings: string[];
+	onSelect: (childId: string) => void;
+};
+
+function BranchSwitcher({ current, siblings, onSelect }: BranchSwitcherProps) {
+	const position = siblings.indexOf(current);
+	const prev = siblings[position - 1];
+	const next = siblings[position + 1];
+
+	return (
+		<div className="mt-1 flex items-center gap-1 tracking-normal text-slate-500">
+			<button
+				type="button"
+				aria-label="Previous branch"
+				className="interactive hover:text-cyan-300 disabled:opacity-40 disabled:hover:text-slate-500"
+				disabled={!prev}
+				onClick={() => prev && onSelect(prev)}
+			>
+				{"<"}
+			</button>
+			<span>
+				{position + 1}/{siblings.length}
+			</span>
+			<button
+				type="button"
+				aria-label="Next branch"
+				className="interactive hover:text-cyan-300 disabled:opacity-40 disabled:hover:text-slate-500"
+				disabled={!next}
+				onClick={() => next && onSelect(next)}
+			>
+				{">"}
+			</button>
+		</div>
+	);
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { DisplayMessage } from "../conversations";
+import type { ChatSearchOptions } from "./chat-context";
+import { buildSearchPattern, findChatMatches } from "./chat-utils";
+
+const defaults: ChatSearchOptions = {
+	regex: false,
+	matchCase: false,
+	wholeWord: false,
+	role: "all",
+	allBranches: false,
+};
+
+function message(id: string, text: string, authorRole = "user") {
+	return {
+		id,
+		authorRole,
+		createTime: undefined,
+		contentType: "text",
+		content: undefined,
+		text,
+		attachments: [],
+		siblingIds: [],
+	} satisfies DisplayMessage;
+}
+
+function search(
+	text: string,
+	query: string,
+	options: Partial<ChatSearchOptions> = {},
+) {
+	const pattern = buildSearchPattern(query, { ...defaults, ...options });
+	if (!(pattern instanceof RegExp)) return pattern;
+	return findChatMatches([message("a", text)], pattern, "all").map((match) =>
+		text.slice(match.start, match.end),
+	);
+}
+
+describe("buildSearchPattern", () => {
+	it("matches plain queries literally and ignores case", () => {
+		expect(search("a.b axb A.B", "a.b")).toEqual(["a.b", "A.B"]);
+	});
+
+	it("respects match case", () => {
+		expect(search("Cat cat", "cat", { matchCase: true })).toEqual(["cat"]);
+	});
+
+	it("matches whole words", () => {
+		expect(search("cat concat cat.", "cat", { wholeWord: true })).toEqual([
+			"cat",
+			"cat",
+		]);
+	});
+
+	it("matches whole words that start or end with punctuation", () => {
+		expect(search("C++ and C#", "C++", { wholeWord: true })).toEqual(["C++"]);
+		expect(search("a #tag here", "#tag", { wholeWord: true })).toEqual([
+			"#tag",
+		]);
+		expect(search("see foo. foobar", "foo.", { wholeWord: true })).toEqual([
+			"foo.",
+		]);
+	});
+
+	it("supports regexes and reports invalid ones", () => {
+		expect(search("cat cot cut", "c[ao]t", { regex: true })).toEqual([
+			"cat",
+			"cot",
+		]);
+		expect(buildSearchPattern("(", { ...defaults, regex: true })).toEqual(
+			expect.stringContaining("Unterminated group"),
+		);
+	});
+
+	it("returns null for a blank query", () => {
+		expect(buildSearchPattern("   ", defaults)).toBeNull();
+	});
+});
+
+describe("findChatMatches", () => {
+	it("skips empty matches", () => {
+		expect(search("abc", "x*", { regex: true })).toEqual([]);
+	});
+
+	it("limits matches to one role", () => {
+		const pattern = buildSearchPattern("hi", defaults) as RegExp;
+		const matches = findChatMatches(
+			[message("a", "hi"), message("b", "hi hi", "assistant")],
+			pattern,
+			"assistant",
+		);
+		expect(matches).toEqual([
+			{ messageId: "b", start: 0, end: 2 },
+			{ messageId: "b", start: 3, end: 5 },
+		]);
+	});
+});
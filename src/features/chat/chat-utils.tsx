@@ -1,6 +1,59 @@
 import { formatTimestamp } from "../../lib/format";
 import type { Conversation, DisplayMessage } from "../conversations";
-import type { ChatMatch } from "./chat-context";
+import type { ChatMatch, ChatSearchOptions } from "./chat-context";
+
+/**
+ * Turns the query into a global pattern. Plain queries are matched literally;
+ * an invalid regex comes back as its error message.
+ */
+export function buildSearchPattern(
+	query: string,
+	options: ChatSearchOptions,
+): RegExp | string | null {
+	const source = options.regex
+		? query
+		: query.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	if (!source.trim()) return null;
+	// Not `\b`, which needs a word character at each end: "C++" or "#tag"
+	// would never match.
+	const pattern = options.wholeWord ? `(?<!\\w)(?:${source})(?!\\w)` : source;
+	try {
+		return new RegExp(pattern, options.matchCase ? "g" : "gi");
+	} catch (error) {
+		return error instanceof Error
+			? error.message
+			: "Invalid regular expression";
+	}
+}
+
+export function findChatMatches(
+	messages: DisplayMessage[],
+	pattern: RegExp,
+	role: ChatSearchOptions["role"],
+) {
+	const matches: ChatMatch[] = [];
+	for (const message of messages) {
+		if (role !== "all" && message.authorRole !== role) continue;
+		pattern.lastIndex = 0;
+		for (
+			let found = pattern.exec(message.text);
+			found;
+			found = pattern.exec(message.text)
+		) {
+			// Empty matches (`a*`, `^`) would never advance and can't be highlighted.
+			if (found[0].length === 0) {
+				pattern.lastIndex += 1;
+				continue;
+			}
+			matches.push({
+				messageId: message.id,
+				start: found.index,
+				end: found.index + found[0].length,
+			});
+		}
+	}
+	return matches;
+}
 
 export function renderChatHighlights(
 	text: string,
@@ -1,12 +1,13 @@
 import { ChatProvider, useChat } from "./chat-context";
 import { ChatHeader } from "./chat-header";
-import { ChatPanel } from "./chat-panel";
+import { ChatPanel, ChatTabPanel } from "./chat-panel";
 import { ChatSearch } from "./chat-search";
 import { ChatTranscript } from "./chat-transcript";
 
 export const Chat = {
 	Provider: ChatProvider,
 	Panel: ChatPanel,
+	TabPanel: ChatTabPanel,
 	Header: ChatHeader,
 	Search: ChatSearch,
 	Transcript: ChatTranscript,
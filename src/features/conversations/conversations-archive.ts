@@ -0,0 +1,113 @@
+import { readZipEntries, readZipText, type ZipEntry } from "../../lib/zip";
+import type {
+	ExportArchive,
+	ExportUser,
+	MessageFeedback,
+	SharedConversation,
+} from "./conversations-types";
+
+const EXPORT_FILES = {
+	conversations: "conversations.json",
+	user: "user.json",
+	messageFeedback: "message_feedback.json",
+	sharedConversations: "shared_conversations.json",
+	chatHtml: "chat.html",
+};
+
+const GEMINI_ACTIVITY = "MyActivity.json";
+
+const KNOWN_FILES = new Set([...Object.values(EXPORT_FILES), GEMINI_ACTIVITY]);
+
+function baseName(path: string) {
+	const slash = path.lastIndexOf("/");
+	return slash === -1 ? path : path.slice(slash + 1);
+}
+
+function findEntry(entries: ZipEntry[], fileName: string) {
+	// Exports are usually flat, but re-zipped folders nest everything one level down.
+	return entries
+		.filter((entry) => baseName(entry.name) === fileName)
+		.sort((a, b) => a.name.length - b.name.length)[0];
+}
+
+async function readJsonEntry<T>(blob: Blob, entry: ZipEntry | undefined) {
+	if (!entry) return null;
+	try {
+		return JSON.parse(await readZipText(blob, entry)) as T;
+	} catch (err) {
+		console.warn("[upload] unreadable archive entry", {
+			name: entry.name,
+			err,
+		});
+		return null;
+	}
+}
+
+// Google Takeout keeps Gemini prompts in its activity log instead.
+function findGeminiActivity(entries: ZipEntry[]) {
+	return entries.find(
+		(entry) =>
+			/Gemini|Bard/.test(entry.name) &&
+			baseName(entry.name) === GEMINI_ACTIVITY,
+	);
+}
+
+/** `file-service://file-abc` and `sediment://file_abc` both name an uploaded file by ID. */
+export function getAssetFileId(pointer: string) {
+	const match = /^[a-z-]+:\/\/(.+)$/i.exec(pointer);
+	return match ? match[1] : pointer;
+}
+
+/** Uploaded files are stored as `<file id>-<original name>` next to conversations.json. */
+export function findArchiveAsset(archive: ExportArchive, fileId: string) {
+	return (
+		archive.attachments.find((entry) => {
+			const name = baseName(entry.name);
+			return (
+				name.startsWith(fileId) && /^([-.]|$)/.test(name.slice(fileId.length))
+			);
+		}) ?? null
+	);
+}
+
+export async function openExportArchive(file: File) {
+	const entries = await readZipEntries(file);
+	const conversationsEntry =
+		findEntry(entries, EXPORT_FILES.conversations) ??
+		findGeminiActivity(entries);
+	if (!conversationsEntry) {
+		throw new Error(
+			"No conversations.json found in the archive. Ensure you selected a ChatGPT or Claude export .zip, or a Gemini Takeout .zip.",
+		);
+	}
+
+	const [user, messageFeedback, sharedConversations] = await Promise.all([
+		readJsonEntry<ExportUser>(file, findEntry(entries, EXPORT_FILES.user)),
+		readJsonEntry<MessageFeedback[]>(
+			file,
+			findEntry(entries, EXPORT_FILES.messageFeedback),
+		),
+		readJsonEntry<SharedConversation[]>(
+			file,
+			findEntry(entries, EXPORT_FILES.sharedConversations),
+		),
+	]);
+
+	const archive: ExportArchive = {
+		fileName: file.name,
+		blob: file,
+		entries: new Map(entries.map((entry) => [entry.name, entry])),
+		user,
+		messageFeedback: Array.isArray(messageFeedback) ? messageFeedback : [],
+		sharedConversations: Array.isArray(sharedConversations)
+			? sharedConversations
+			: [],
+		attachments: entries.filter(
+			(entry) =>
+				!KNOWN_FILES.has(baseName(entry.name)) &&
+				!baseName(entry.name).startsWith("."),
+		),
+	};
+
+	return { archive, conversationsEntry };
+}
@@ -0,0 +1,129 @@
+import { useId, useState } from "react";
+import { Toolbar } from "../../components/toolbar";
+import { downloadBlob } from "../../lib/download";
+import { numberFormat } from "../../lib/format";
+import { Annotations } from "../annotations";
+import { buildContextText, fallbackCopy } from "../chat/chat-utils";
+import { Dockview } from "../dockview";
+import { useConversations } from "./conversations-context";
+import { extractMessages, getConversationKey } from "./conversations-utils";
+
+/** Opening more tabs than this at once asks first. */
+const TAB_WARNING_COUNT = 10;
+
+export function ConversationsBulkBar() {
+	const {
+		state: { conversations, checkedIndices },
+		actions: { clearRowSelection },
+	} = useConversations();
+	const {
+		state: { tagCounts },
+		actions: { addTag },
+	} = Annotations.useAnnotations();
+	const {
+		actions: { openChat },
+	} = Dockview.useDockview();
+	const [copied, setCopied] = useState(false);
+	const [tag, setTag] = useState("");
+	const listId = useId();
+
+	if (checkedIndices.length === 0) return null;
+
+	const selected = checkedIndices
+		.map((index) => ({ index, conversation: conversations[index] }))
+		.filter((item) => item.conversation);
+
+	const copyContext = async () => {
+		const text = selected
+			.map(({ conversation }) =>
+				buildContextText(conversation, extractMessages(conversation)),
+			)
+			.join("\n\n---\n\n");
+		try {
+			await navigator.clipboard.writeText(text);
+		} catch {
+			fallbackCopy(text);
+		}
+		setCopied(true);
+		window.setTimeout(() => setCopied(false), 1600);
+	};
+
+	const exportJson = () => {
+		const data = JSON.stringify(
+			selected.map(({ conversation }) => conversation),
+			null,
+			2,
+		);
+		downloadBlob(
+			new Blob([data], { type: "application/json" }),
+			`conversations-${selected.length}.json`,
+		);
+	};
+
+	const tagSelected = () => {
+		if (!tag.trim()) return;
+		for (const { conversation } of selected) {
+			const key = getConversationKey(conversation);
+			if (key) addTag(key, tag);
+		}
+		setTag("");
+	};
+
+	const openTabs = () => {
+		if (
+			selected.length > TAB_WARNING_COUNT &&
+			!window.confirm(`Open ${selected.length} chat tabs?`)
+		) {
+			return;
+		}
+		for (const { conversation } of selected) {
+			const key = getConversationKey(conversation);
+			if (key) openChat(key, conversation.title || "Untitled");
+		}
+	};
+
+	return (
+		<Toolbar
+			className="flex flex-wrap items-center gap-2 border border-cyan-900/60 bg-cyan-950/20 px-2 py-1 text-[11px] text-slate-300"
+			rowClass="flex items-center gap-2 h-7"
+		>
+			<Toolbar.Row>
+				<Toolbar.Text className="text-cyan-200">
+					{numberFormat.format(selected.length)} selected
+				</Toolbar.Text>
+				<Toolbar.Button onClick={copyContext}>
+					<span className="text-cyan-300">[→]</span>
+					{copied ? "Copied" : "Copy context"}
+				</Toolbar.Button>
+				<Toolbar.Button onClick={exportJson}>Export JSON</Toolbar.Button>
+				<Toolbar.Button onClick={openTabs}>Open in tabs</Toolbar.Button>
+			</Toolbar.Row>
+			<Toolbar.Row>
+				<Toolbar.Input
+					value={tag}
+					list={listId}
+					onChange={(event) => setTag(event.target.value)}
+					onKeyDown={(event) => {
+						if (event.key === "Enter") tagSelected();
+					}}
+					placeholder="Tag…"
+					className="h-full w-28"
+				/>
+				<datalist id={listId}>
+					{tagCounts.map(([name]) => (
+						<option key={name} value={name} />
+					))}
+				</datalist>
+				<Toolbar.Button onClick={tagSelected} disabled={!tag.trim()}>
+					Tag
+				</Toolbar.Button>
+				<Toolbar.Button
+					onClick={clearRowSelection}
+					className="hover:border-rose-400/70"
+				>
+					<span className="text-rose-300">[x]</span> Clear
+				</Toolbar.Button>
+			</Toolbar.Row>
+		</Toolbar>
+	);
+}
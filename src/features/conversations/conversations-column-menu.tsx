@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+import { Toolbar } from "../../components/toolbar";
+import { columnIds } from "./conversations-columns";
+import { useConversations } from "./conversations-context";
+
+export function ConversationsColumnMenu() {
+	const {
+		state: { columnVisibility, columnOrder },
+		actions: { setColumnVisibility, setColumnOrder, resetColumns },
+		meta: { columns },
+	} = useConversations();
+	const [isOpen, setIsOpen] = useState(false);
+	const [dragId, setDragId] = useState<string | null>(null);
+	const [overId, setOverId] = useState<string | null>(null);
+	const menuRef = useRef<HTMLDivElement | null>(null);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		const handleOutside = (event: MouseEvent | TouchEvent) => {
+			const target = event.target;
+			if (!(target instanceof Node)) return;
+			if (!menuRef.current?.contains(target)) {
+				setIsOpen(false);
+			}
+		};
+		document.addEventListener("mousedown", handleOutside);
+		document.addEventListener("touchstart", handleOutside);
+		return () => {
+			document.removeEventListener("mousedown", handleOutside);
+			document.removeEventListener("touchstart", handleOutside);
+		};
+	}, [isOpen]);
+
+	const labels = new Map(
+		columns.map((column, index) => [columnIds[index], String(column.header)]),
+	);
+	// Columns added after the order was saved go last, as TanStack does.
+	const ordered = [
+		...columnOrder.filter((id) => labels.has(id)),
+		...columnIds.filter((id) => !columnOrder.includes(id)),
+	];
+
+	// Takes the target's slot: above it when moving up, below it when moving down.
+	const moveColumn = (id: string, targetId: string) => {
+		const from = ordered.indexOf(id);
+		const to = ordered.indexOf(targetId);
+		if (from < 0 || to < 0 || from === to) return;
+		const next = [...ordered];
+		next.splice(from, 1);
+		next.splice(to, 0, id);
+		setColumnOrder(next);
+	};
+
+	const endDrag = () => {
+		setDragId(null);
+		setOverId(null);
+	};
+
+	return (
+		<div className="relative h-full" ref={menuRef}>
+			<Toolbar.Button
+				aria-expanded={isOpen}
+				onClick={() => setIsOpen((open) => !open)}
+			>
+				Columns
+			</Toolbar.Button>
+			{isOpen ? (
+				<div className="absolute right-0 top-8 z-20 w-56 border border-slate-700 bg-slate-950/95 p-2 text-[11px] text-slate-200 shadow-lg">
+					<div className="mb-1 flex items-center justify-between text-[10px] uppercase tracking-[0.2em] text-slate-500">
+						<span>Drag to reorder</span>
+						<button
+							type="button"
+							className="interactive tracking-normal normal-case text-cyan-300 hover:text-white"
+							onClick={resetColumns}
+						>
+							Reset
+						</button>
+					</div>
+					<ul className="flex flex-col">
+						{ordered.map((id) => (
+							<li
+								key={id}
+								draggable
+								onDragStart={(event) => {
+									event.dataTransfer.effectAllowed = "move";
+									setDragId(id);
+								}}
+								onDragOver={(event) => {
+									if (!dragId) return;
+									event.preventDefault();
+									if (overId !== id) setOverId(id);
+								}}
+								onDrop={(event) => {
+									event.preventDefault();
+									if (dragId) moveColumn(dragId, id);
+									endDrag();
+								}}
+								onDragEnd={endDrag}
+								className={`flex cursor-grab items-center gap-2 px-1 py-0.5 hover:bg-slate-900${
+									dragId === id ? " opacity-50" : ""
+								}${
+									dragId && overId === id && dragId !== id
+										? ordered.indexOf(dragId) < ordered.indexOf(id)
+											? " shadow-[inset_0_-1px_0_0_rgb(34_211_238)]"
+											: " shadow-[inset_0_1px_0_0_rgb(34_211_238)]"
+										: ""
+								}`}
+							>
+								<span className="text-slate-600">⋮⋮</span>
+								<label className="flex flex-1 cursor-pointer items-center gap-2">
+									<input
+										type="checkbox"
+										checked={columnVisibility[id] !== false}
+										onChange={(event) =>
+											setColumnVisibility((old) => ({
+												...old,
+												[id]: event.target.checked,
+											}))
+										}
+									/>
+									{labels.get(id)}
+								</label>
+							</li>
+						))}
+					</ul>
+				</div>
+			) : null}
+		</div>
+	);
+}
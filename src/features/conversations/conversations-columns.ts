@@ -1,13 +1,47 @@
 import type { ColumnDef, FilterFn } from "@tanstack/react-table";
-import { formatTimestamp, numberFormat } from "../../lib/format";
-import type { ConversationRow } from "./conversations-types";
+import {
+	formatDuration,
+	formatTimestamp,
+	numberFormat,
+} from "../../lib/format";
+import { facetFilterFn } from "./conversations-facets";
+import { getParsedQuery, matchesQuery } from "./conversations-query";
+import type { ColumnLayout, ConversationRow } from "./conversations-types";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const monthFormat = new Intl.DateTimeFormat(undefined, { month: "long" });
+
+/** Buckets a timestamp the way the ChatGPT sidebar does. */
+export function getDateBucket(time: number | undefined, now = new Date()) {
+	if (!time) return "No date";
+	const date = new Date(time * 1000);
+	const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	const age = today.getTime() - date.getTime();
+	if (age <= 0) return "Today";
+	if (age <= DAY) return "Yesterday";
+	if (age <= 7 * DAY) return "Previous 7 days";
+	if (age <= 30 * DAY) return "Previous 30 days";
+	if (date.getFullYear() === now.getFullYear()) {
+		return monthFormat.format(date);
+	}
+	return String(date.getFullYear());
+}
 
 export const columns: ColumnDef<ConversationRow>[] = [
 	{
 		accessorKey: "title",
 		header: "Title",
+		size: 320,
 		cell: (info) => info.getValue<string>() || "Untitled",
 	},
+	{
+		id: "tags",
+		accessorFn: (row) => `${row.starred ? "★ " : ""}${row.tags.join(", ")}`,
+		header: "Tags",
+		cell: (info) => info.getValue<string>() || "—",
+		filterFn: facetFilterFn,
+	},
 	{
 		accessorKey: "createTime",
 		header: "Created",
@@ -17,26 +51,124 @@ export const columns: ColumnDef<ConversationRow>[] = [
 		accessorKey: "updateTime",
 		header: "Updated",
 		cell: (info) => formatTimestamp(info.getValue<number | undefined>()),
+		filterFn: facetFilterFn,
+		// Groups sort by their latest conversation.
+		aggregationFn: "max",
+	},
+	{
+		id: "period",
+		accessorFn: (row) => getDateBucket(row.updateTime ?? row.createTime),
+		header: "Period",
+		cell: (info) => info.getValue<string>(),
 	},
 	{
 		accessorKey: "messageCount",
+		aggregationFn: "sum",
 		header: "Messages",
 		cell: (info) => numberFormat.format(info.getValue<number>()),
+		filterFn: facetFilterFn,
 	},
 	{
 		accessorKey: "userCount",
+		aggregationFn: "sum",
 		header: "User",
 		cell: (info) => numberFormat.format(info.getValue<number>()),
 	},
 	{
 		accessorKey: "assistantCount",
+		aggregationFn: "sum",
 		header: "Assistant",
 		cell: (info) => numberFormat.format(info.getValue<number>()),
 	},
+	{
+		accessorKey: "wordCount",
+		aggregationFn: "sum",
+		header: "Words",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+	},
+	{
+		accessorKey: "charCount",
+		aggregationFn: "sum",
+		header: "Chars",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+	},
+	{
+		accessorKey: "tokenEstimate",
+		aggregationFn: "sum",
+		header: "~Tokens",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+	},
+	{
+		accessorKey: "codeBlockCount",
+		aggregationFn: "sum",
+		header: "Code",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "imageCount",
+		aggregationFn: "sum",
+		header: "Images",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "attachmentCount",
+		aggregationFn: "sum",
+		header: "Files",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "duration",
+		header: "Duration",
+		cell: (info) => formatDuration(info.getValue<number>()),
+	},
+	{
+		accessorKey: "avgReplyWords",
+		header: "Avg reply",
+		cell: (info) => numberFormat.format(info.getValue<number>()),
+	},
 	{
 		accessorKey: "isArchived",
 		header: "Archived",
 		cell: (info) => (info.getValue<boolean>() ? "Yes" : "No"),
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "provider",
+		header: "Provider",
+		cell: (info) => info.getValue<string>(),
+	},
+	{
+		accessorKey: "model",
+		header: "Model",
+		cell: (info) => info.getValue<string>() || "—",
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "gizmoId",
+		header: "GPT / Project",
+		cell: (info) => info.getValue<string>() || "—",
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "gizmoType",
+		header: "Gizmo Type",
+		cell: (info) => info.getValue<string>() || "—",
+		filterFn: facetFilterFn,
+	},
+	{
+		accessorKey: "templateId",
+		header: "Template ID",
+		cell: (info) => info.getValue<string>() || "—",
+		filterFn: facetFilterFn,
+	},
+	{
+		id: "sources",
+		accessorFn: (row) => row.sources.join(", "),
+		header: "Source",
+		cell: (info) => info.getValue<string>() || "—",
 	},
 	{
 		accessorKey: "currentNode",
@@ -55,29 +187,39 @@ export const columns: ColumnDef<ConversationRow>[] = [
 	},
 ];
 
+export const columnIds = columns.map(
+	(column) =>
+		column.id ?? ("accessorKey" in column ? String(column.accessorKey) : ""),
+);
+
+export const defaultColumnLayout: ColumnLayout = {
+	visibility: {
+		currentNode: false,
+		id: false,
+		period: false,
+		charCount: false,
+	},
+	order: columnIds,
+	sizing: {},
+};
+
+export const groupingOptions = [
+	{ id: "period", label: "Date" },
+	{ id: "model", label: "Model" },
+	{ id: "gizmoId", label: "GPT / project" },
+	{ id: "isArchived", label: "Archived" },
+];
+
+export function formatGroupValue(columnId: string, value: unknown) {
+	if (columnId === "isArchived") return value ? "Archived" : "Not archived";
+	if (value === undefined || value === null || value === "") {
+		return columnId === "gizmoId" ? "No GPT / project" : "None";
+	}
+	return String(value);
+}
+
 export const globalFilterFn: FilterFn<ConversationRow> = (
 	row,
 	_columnId,
 	value,
-) => {
-	const filter = String(value ?? "")
-		.trim()
-		.toLowerCase();
-	if (!filter) return true;
-	const haystack = [
-		row.original.title,
-		row.original.id,
-		row.original.conversationId,
-		row.original.currentNode,
-		row.original.isArchived ? "yes" : "no",
-		row.original.messageCount,
-		row.original.userCount,
-		row.original.assistantCount,
-		row.original.createTime,
-		row.original.updateTime,
-	]
-		.map((entry) => (entry === undefined ? "" : String(entry)))
-		.join(" ")
-		.toLowerCase();
-	return haystack.includes(filter);
-};
+) => matchesQuery(row.original, getParsedQuery(String(value ?? "")));
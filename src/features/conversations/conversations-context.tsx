@@ -1,30 +1,99 @@
-import type { SortingState } from "@tanstack/react-table";
+import {
+	type ColumnFiltersState,
+	type ColumnOrderState,
+	type ColumnSizingState,
+	type ExpandedState,
+	functionalUpdate,
+	type GroupingState,
+	type OnChangeFn,
+	type RowSelectionState,
+	type SortingState,
+	type VisibilityState,
+} from "@tanstack/react-table";
 import {
 	type ChangeEvent,
 	createContext,
 	type DragEvent,
 	type ReactNode,
 	useContext,
+	useEffect,
+	useMemo,
+	useRef,
 	useState,
 } from "react";
-import { columns, globalFilterFn } from "./conversations-columns";
+import { getStorageEstimate } from "../../lib/idb";
+import { isZipFile, type ZipEntry } from "../../lib/zip";
+import { Annotations } from "../annotations";
+import { openExportArchive } from "./conversations-archive";
+import {
+	columns,
+	defaultColumnLayout,
+	globalFilterFn,
+} from "./conversations-columns";
+import { getFacetValues } from "./conversations-facets";
+import {
+	ImportCancelledError,
+	type ParseJob,
+	parseConversations,
+} from "./conversations-loader";
+import {
+	deleteLibrary,
+	getActiveLibraryId,
+	listLibraries,
+	loadColumnLayout,
+	loadLibrary,
+	renameLibrary,
+	saveColumnLayout,
+	saveLibrary,
+	setActiveLibraryId,
+} from "./conversations-storage";
 import type {
+	ColumnLayout,
 	Conversation,
 	ConversationRow,
 	DisplayMessage,
+	ExportSource,
+	Library,
+	LoadProgress,
+	SavedLibrary,
 	Stats,
+	StorageUsage,
 } from "./conversations-types";
-import { extractMessages, normalizeConversations } from "./conversations-utils";
+import {
+	addToSnapshot,
+	emptyLibrary,
+	extractMessages,
+	getConversationKey,
+	getConversationMetrics,
+	mergeConversations,
+} from "./conversations-utils";
 
 type ConversationsState = {
 	conversations: Conversation[];
-	fileName: string | null;
+	conversationSources: string[][];
+	indexByKey: Map<string, number>;
+	sources: ExportSource[];
+	savedLibrary: SavedLibrary | null;
+	savedLibraries: SavedLibrary[];
+	storageUsage: StorageUsage | null;
+	persistStatus: "idle" | "restoring" | "saving";
 	error: string | null;
 	loading: boolean;
+	progress: LoadProgress | null;
 	isDragging: boolean;
 	globalFilter: string;
 	sorting: SortingState;
+	columnFilters: ColumnFiltersState;
+	isFacetsOpen: boolean;
+	columnVisibility: VisibilityState;
+	columnOrder: ColumnOrderState;
+	columnSizing: ColumnSizingState;
+	grouping: GroupingState;
+	expanded: ExpandedState;
 	selectedIndex: number | null;
+	/** Checked rows for bulk actions, keyed by `String(sourceIndex)`. */
+	rowSelection: RowSelectionState;
+	checkedIndices: number[];
 	rows: ConversationRow[];
 	stats: Stats;
 	selectedConversation: Conversation | null;
@@ -36,11 +105,32 @@ type ConversationsActions = {
 	setSorting: (
 		value: SortingState | ((old: SortingState) => SortingState),
 	) => void;
+	setColumnFilters: (
+		value:
+			| ColumnFiltersState
+			| ((old: ColumnFiltersState) => ColumnFiltersState),
+	) => void;
+	/** Checks or unchecks one key of a facet. */
+	toggleFacet: (id: string, key: string) => void;
+	clearFacets: () => void;
+	setIsFacetsOpen: (value: boolean | ((old: boolean) => boolean)) => void;
+	setColumnVisibility: OnChangeFn<VisibilityState>;
+	setColumnOrder: OnChangeFn<ColumnOrderState>;
+	setColumnSizing: OnChangeFn<ColumnSizingState>;
+	resetColumns: () => void;
+	setGrouping: OnChangeFn<GroupingState>;
+	setExpanded: OnChangeFn<ExpandedState>;
 	setIsDragging: (value: boolean) => void;
 	onFileChange: (event: ChangeEvent<HTMLInputElement>) => void;
 	onDrop: (event: DragEvent<HTMLDivElement>) => void;
 	onClear: () => void;
+	onCancelLoad: () => void;
+	onOpenLibrary: (id: string) => void;
+	onNewLibrary: () => void;
+	onRenameLibrary: (name: string) => void;
 	onSelectRow: (index: number) => void;
+	setRowSelection: OnChangeFn<RowSelectionState>;
+	clearRowSelection: () => void;
 };
 
 type ConversationsMeta = {
@@ -75,51 +165,126 @@ type ConversationsProviderProps = {
 export function ConversationsProvider({
 	children,
 }: ConversationsProviderProps) {
-	const [conversations, setConversations] = useState<Conversation[]>([]);
-	const [fileName, setFileName] = useState<string | null>(null);
+	const [library, setLibrary] = useState<Library>(emptyLibrary);
+	const libraryRef = useRef<Library>(emptyLibrary);
+	const [sources, setSources] = useState<ExportSource[]>([]);
+	const sourcesRef = useRef<ExportSource[]>([]);
+	const [savedLibrary, setSavedLibrary] = useState<SavedLibrary | null>(null);
+	const savedLibraryRef = useRef<SavedLibrary | null>(null);
+	/** Bumped whenever the library is reset, so late saves can tell they're stale. */
+	const generationRef = useRef(0);
+	const pendingSaveRef = useRef<{
+		id: string;
+		generation: number;
+		done: Promise<void>;
+	} | null>(null);
+	const [savedLibraries, setSavedLibraries] = useState<SavedLibrary[]>([]);
+	const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+	const [persistStatus, setPersistStatus] = useState<
+		"idle" | "restoring" | "saving"
+	>("idle");
 	const [error, setError] = useState<string | null>(null);
 	const [loading, setLoading] = useState(false);
+	const [progress, setProgress] = useState<LoadProgress | null>(null);
+	const jobRef = useRef<ParseJob | null>(null);
 	const [isDragging, setIsDragging] = useState(false);
+	const [isFacetsOpen, setIsFacetsOpen] = useState(false);
 	const [globalFilter, setGlobalFilter] = useState("");
 	const [sorting, setSorting] = useState<SortingState>([
 		{ id: "updateTime", desc: true },
 	]);
+	const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
+	const [columnLayout, setColumnLayout] = useState<ColumnLayout>(() => ({
+		...defaultColumnLayout,
+		...loadColumnLayout(),
+	}));
+	const [grouping, setGrouping] = useState<GroupingState>([]);
+	const [expanded, setExpanded] = useState<ExpandedState>(true);
 	const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+	const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+
+	const {
+		meta: { getAnnotation },
+	} = Annotations.useAnnotations();
+
+	const { conversations, sourceIds: conversationSources, indexByKey } = library;
+
+	// Rows are the table's data; rebuilding them re-runs filtering, sorting,
+	// grouping and facet counts over the whole library.
+	const rows = useMemo<ConversationRow[]>(() => {
+		const sourceNames = new Map(
+			sources.map((source) => [source.id, source.name]),
+		);
+		return conversations.map((conversation, index) => {
+			const mappingNodes = Object.values(conversation.mapping ?? {});
+			const messageNodes = mappingNodes.filter((node) => node?.message);
+			const userCount = messageNodes.filter(
+				(node) => node?.message?.author?.role === "user",
+			).length;
+			const assistantCount = messageNodes.filter(
+				(node) => node?.message?.author?.role === "assistant",
+			).length;
+			const models = new Set<string>();
+			let lastModel: string | undefined;
+			let lastModelTime = Number.NEGATIVE_INFINITY;
+			for (const node of messageNodes) {
+				const slug = node.message?.metadata?.model_slug;
+				if (!slug) continue;
+				models.add(slug);
+				const time = node.message?.create_time ?? 0;
+				if (time >= lastModelTime) {
+					lastModel = slug;
+					lastModelTime = time;
+				}
+			}
+
+			const annotation = getAnnotation(getConversationKey(conversation));
 
-	const rows: ConversationRow[] = conversations.map((conversation, index) => {
-		const mappingNodes = Object.values(conversation.mapping ?? {});
-		const messageNodes = mappingNodes.filter((node) => node?.message);
-		const userCount = messageNodes.filter(
-			(node) => node?.message?.author?.role === "user",
-		).length;
-		const assistantCount = messageNodes.filter(
-			(node) => node?.message?.author?.role === "assistant",
-		).length;
+			return {
+				id: conversation.id ?? `row-${index + 1}`,
+				title: conversation.title ?? "",
+				createTime: conversation.create_time,
+				updateTime: conversation.update_time,
+				messageCount: messageNodes.length,
+				userCount,
+				assistantCount,
+				currentNode: conversation.current_node ?? undefined,
+				isArchived: Boolean(conversation.is_archived),
+				provider: conversation.provider ?? "chatgpt",
+				model: conversation.default_model_slug ?? lastModel,
+				models: [...models],
+				gizmoId: conversation.gizmo_id ?? undefined,
+				gizmoType: conversation.gizmo_type ?? undefined,
+				templateId: conversation.conversation_template_id ?? undefined,
+				conversationId: conversation.conversation_id ?? undefined,
+				sources: (conversationSources[index] ?? []).map(
+					(id) => sourceNames.get(id) ?? id,
+				),
+				tags: annotation.tags,
+				starred: annotation.starred,
+				note: annotation.note,
+				sourceIndex: index,
+				...getConversationMetrics(conversation),
+			};
+		});
+	}, [conversations, conversationSources, sources, getAnnotation]);
 
+	const stats = useMemo<Stats>(() => {
+		// A loop, as spreading a large library into Math.max overflows the stack.
+		let latestUpdate: number | undefined;
+		for (const row of rows) {
+			latestUpdate = Math.max(
+				latestUpdate ?? 0,
+				row.updateTime ?? row.createTime ?? 0,
+			);
+		}
 		return {
-			id: conversation.id ?? `row-${index + 1}`,
-			title: conversation.title ?? "",
-			createTime: conversation.create_time,
-			updateTime: conversation.update_time,
-			messageCount: messageNodes.length,
-			userCount,
-			assistantCount,
-			currentNode: conversation.current_node ?? undefined,
-			isArchived: Boolean(conversation.is_archived),
-			conversationId: conversation.conversation_id ?? undefined,
-			sourceIndex: index,
+			total: rows.length,
+			totalMessages: rows.reduce((sum, row) => sum + row.messageCount, 0),
+			archived: rows.filter((row) => row.isArchived).length,
+			latestUpdate,
 		};
-	});
-
-	const stats: Stats = {
-		total: rows.length,
-		totalMessages: rows.reduce((sum, row) => sum + row.messageCount, 0),
-		archived: rows.filter((row) => row.isArchived).length,
-		latestUpdate:
-			rows.length > 0
-				? Math.max(...rows.map((row) => row.updateTime ?? row.createTime ?? 0))
-				: undefined,
-	};
+	}, [rows]);
 
 	const selectedConversation =
 		selectedIndex === null ? null : (conversations[selectedIndex] ?? null);
@@ -127,60 +292,293 @@ export function ConversationsProvider({
 		? extractMessages(selectedConversation)
 		: [];
 
+	const commitLibrary = (next: Library) => {
+		libraryRef.current = next;
+		setLibrary(next);
+	};
+
+	const updateSources = (update: (old: ExportSource[]) => ExportSource[]) => {
+		sourcesRef.current = update(sourcesRef.current);
+		setSources(sourcesRef.current);
+	};
+
+	const commitSavedLibrary = (next: SavedLibrary | null) => {
+		savedLibraryRef.current = next;
+		setSavedLibrary(next);
+		setActiveLibraryId(next?.id ?? null);
+	};
+
+	const refreshStorage = async () => {
+		try {
+			setSavedLibraries(await listLibraries());
+			setStorageUsage(await getStorageEstimate());
+		} catch (err) {
+			console.warn("[storage] unavailable", err);
+		}
+	};
+
+	const resetLibrary = () => {
+		generationRef.current += 1;
+		commitLibrary(emptyLibrary);
+		updateSources(() => []);
+		commitSavedLibrary(null);
+		setError(null);
+		setGlobalFilter("");
+		setSorting([{ id: "updateTime", desc: true }]);
+		setColumnFilters([]);
+		setSelectedIndex(null);
+		setRowSelection({});
+		setExpanded(true);
+	};
+
+	const openLibrary = async (id: string) => {
+		const generation = generationRef.current;
+		setPersistStatus("restoring");
+		try {
+			const restored = await loadLibrary(id);
+			if (!restored || generationRef.current !== generation) return;
+			commitLibrary(restored.library);
+			updateSources(() => restored.sources);
+			commitSavedLibrary(restored.saved);
+			console.info("[storage] restored", {
+				name: restored.saved.name,
+				count: restored.library.conversations.length,
+			});
+		} catch (err) {
+			const message =
+				err instanceof Error ? err.message : "Unable to read saved library.";
+			setError(`Restore failed: ${message}`);
+		} finally {
+			setPersistStatus("idle");
+		}
+	};
+
+	const persistLibrary = async () => {
+		const current = libraryRef.current;
+		if (current.conversations.length === 0) return;
+		const now = Date.now();
+		const previous = savedLibraryRef.current;
+		const saved: SavedLibrary = {
+			id: previous?.id ?? crypto.randomUUID(),
+			name:
+				previous?.name ??
+				sourcesRef.current[0]?.name.replace(/\.(zip|json)$/i, "") ??
+				"Library",
+			createdAt: previous?.createdAt ?? now,
+			updatedAt: now,
+			conversationCount: current.conversations.length,
+			sourceCount: sourcesRef.current.length,
+		};
+		const generation = generationRef.current;
+		const done = saveLibrary(saved, current, sourcesRef.current);
+		pendingSaveRef.current = { id: saved.id, generation, done };
+		setPersistStatus("saving");
+		try {
+			await done;
+			// The library was cleared or replaced while saving; don't bring it back.
+			if (generationRef.current === generation) commitSavedLibrary(saved);
+		} catch (err) {
+			if (generationRef.current === generation) {
+				const message =
+					err instanceof Error ? err.message : "Unable to save the library.";
+				setError(`Save failed: ${message}`);
+			}
+		} finally {
+			if (pendingSaveRef.current?.done === done) {
+				pendingSaveRef.current = null;
+				setPersistStatus("idle");
+			}
+			await refreshStorage();
+		}
+	};
+
+	useEffect(() => {
+		saveColumnLayout(columnLayout);
+	}, [columnLayout]);
+
+	const updateColumnLayout =
+		<K extends keyof ColumnLayout>(key: K): OnChangeFn<ColumnLayout[K]> =>
+		(updater) =>
+			setColumnLayout((old) => ({
+				...old,
+				[key]: functionalUpdate(updater, old[key]),
+			}));
+
+	// Restore the last opened library once on startup; the ref rather than an
+	// empty dependency list keeps it to once under StrictMode too.
+	const hasRestoredRef = useRef(false);
+	useEffect(() => {
+		if (hasRestoredRef.current) return;
+		hasRestoredRef.current = true;
+		const restore = async () => {
+			try {
+				const libraries = await listLibraries();
+				const activeId = getActiveLibraryId();
+				const target =
+					libraries.find((item) => item.id === activeId) ?? libraries[0];
+				if (target && libraryRef.current.conversations.length === 0) {
+					await openLibrary(target.id);
+				}
+			} catch (err) {
+				console.warn("[storage] unavailable", err);
+			}
+			await refreshStorage();
+		};
+		void restore();
+	});
+
+	const cancelJob = () => {
+		const job = jobRef.current;
+		jobRef.current = null;
+		job?.cancel();
+	};
+
+	/** Merges one export into the library; resolves false when cancelled. */
 	const handleFile = async (file: File) => {
 		console.info("[upload] selected", {
 			name: file.name,
 			size: file.size,
 			type: file.type,
 		});
+		cancelJob();
 		setError(null);
 		setLoading(true);
-		setFileName(file.name);
+		setProgress({
+			bytesRead: 0,
+			totalBytes: file.size,
+			conversationsParsed: 0,
+		});
+		const before = libraryRef.current;
+		const source: ExportSource = {
+			id: crypto.randomUUID(),
+			name: file.name,
+			loadedAt: Date.now(),
+			conversationCount: 0,
+			isZip: false,
+			archive: null,
+			snapshot: new Map(),
+			report: null,
+		};
+		let received = 0;
+		let job: ParseJob | null = null;
 		try {
-			const text = await file.text();
-			console.info("[upload] read", {
-				chars: text.length,
-				preview: text.slice(0, 200),
-			});
-			const parsed = JSON.parse(text);
-			console.info("[upload] parsed", {
-				kind: Array.isArray(parsed) ? "array" : typeof parsed,
-				keys:
-					parsed && typeof parsed === "object"
-						? Object.keys(parsed as Record<string, unknown>).slice(0, 12)
-						: null,
-			});
-			const normalized = normalizeConversations(parsed);
-			console.info("[upload] normalized", {
-				count: normalized.length,
+			let entry: ZipEntry | null = null;
+			if (await isZipFile(file)) {
+				const opened = await openExportArchive(file);
+				console.info("[upload] archive", {
+					entries: opened.archive.entries.size,
+					attachments: opened.archive.attachments.length,
+					conversations: opened.conversationsEntry.name,
+				});
+				source.isZip = true;
+				source.archive = opened.archive;
+				entry = opened.conversationsEntry;
+			}
+			updateSources((old) => [...old, source]);
+			job = parseConversations(file, entry, {
+				onProgress: setProgress,
+				onBatch: (batch) => {
+					received += batch.length;
+					// A new snapshot per batch, so a diff open during the import
+					// sees it change.
+					updateSources((old) =>
+						old.map((item) => {
+							if (item.id !== source.id) return item;
+							const snapshot = new Map(item.snapshot);
+							addToSnapshot(snapshot, batch);
+							return { ...item, snapshot };
+						}),
+					);
+					commitLibrary(
+						mergeConversations(libraryRef.current, batch, source.id),
+					);
+				},
 			});
-			if (normalized.length === 0) {
+			jobRef.current = job;
+			const { count, report } = await job.done;
+			console.info("[upload] parsed", { count, shape: report.shape });
+			if (count === 0) {
 				throw new Error(
-					"No conversation records found. Ensure you selected conversations.json.",
+					"No conversation records found. Ensure you selected a ChatGPT, Claude or Gemini export.",
 				);
 			}
-			setConversations(normalized);
-			setSelectedIndex(null);
+			updateSources((old) =>
+				old.map((item) =>
+					item.id === source.id
+						? { ...item, conversationCount: count, report }
+						: item,
+				),
+			);
+			return true;
 		} catch (err) {
+			if (jobRef.current !== job) return false;
+			if (err instanceof ImportCancelledError) {
+				setError(err.message);
+				updateSources((old) =>
+					old.map((item) =>
+						item.id === source.id
+							? { ...item, conversationCount: received }
+							: item,
+					),
+				);
+				return false;
+			}
 			const message =
 				err instanceof Error ? err.message : "Unable to parse the JSON file.";
 			setError(message);
-			setConversations([]);
-			setSelectedIndex(null);
+			commitLibrary(before);
+			updateSources((old) => old.filter((item) => item.id !== source.id));
+			return true;
 		} finally {
-			setLoading(false);
+			if (jobRef.current === job) {
+				jobRef.current = null;
+				setLoading(false);
+				setProgress(null);
+			}
 		}
 	};
 
+	const handleFiles = async (files: File[]) => {
+		for (const file of files) {
+			const keepGoing = await handleFile(file);
+			// A cancelled or superseded import leaves a partial library; don't save it.
+			if (!keepGoing) return;
+		}
+		await persistLibrary();
+	};
+
 	const actions: ConversationsActions = {
 		setGlobalFilter: (value) => setGlobalFilter(value),
 		setSorting: (value) => setSorting(value),
+		setColumnFilters: (value) => setColumnFilters(value),
+		toggleFacet: (id, key) =>
+			setColumnFilters((old) => {
+				const values = getFacetValues(old, id);
+				const next = values.includes(key)
+					? values.filter((value) => value !== key)
+					: [...values, key];
+				return [
+					...old.filter((filter) => filter.id !== id),
+					...(next.length > 0 ? [{ id, value: next }] : []),
+				];
+			}),
+		clearFacets: () => setColumnFilters([]),
+		setIsFacetsOpen: (value) => setIsFacetsOpen(value),
+		setColumnVisibility: updateColumnLayout("visibility"),
+		setColumnOrder: updateColumnLayout("order"),
+		setColumnSizing: updateColumnLayout("sizing"),
+		resetColumns: () => setColumnLayout(defaultColumnLayout),
+		setGrouping: (value) => {
+			setGrouping(value);
+			setExpanded(true);
+		},
+		setExpanded: (value) => setExpanded(value),
 		setIsDragging,
 		onFileChange: async (event) => {
 			const input = event.currentTarget;
-			const file = input.files?.[0];
-			if (!file) return;
-			await handleFile(file);
+			const files = Array.from(input.files ?? []);
+			if (files.length === 0) return;
+			await handleFiles(files);
 			if (input.isConnected) {
 				input.value = "";
 			}
@@ -188,20 +586,73 @@ export function ConversationsProvider({
 		onDrop: (event) => {
 			event.preventDefault();
 			setIsDragging(false);
-			const file = event.dataTransfer?.files?.[0];
-			if (file) {
-				void handleFile(file);
+			const files = Array.from(event.dataTransfer?.files ?? []);
+			if (files.length > 0) {
+				void handleFiles(files);
 			}
 		},
 		onClear: () => {
-			setConversations([]);
-			setFileName(null);
-			setError(null);
-			setGlobalFilter("");
-			setSorting([{ id: "updateTime", desc: true }]);
-			setSelectedIndex(null);
+			cancelJob();
+			setLoading(false);
+			setProgress(null);
+			const saved = savedLibraryRef.current;
+			const pending =
+				pendingSaveRef.current?.generation === generationRef.current
+					? pendingSaveRef.current
+					: null;
+			resetLibrary();
+			// A save still running may be the library's first, so wait for it and
+			// delete what it wrote too.
+			const ids = new Set(
+				[saved?.id, pending?.id].filter((id): id is string => Boolean(id)),
+			);
+			if (ids.size > 0) {
+				const remove = async () => {
+					await pending?.done.catch(() => {});
+					for (const id of ids) await deleteLibrary(id);
+				};
+				void remove()
+					.catch((err) => console.warn("[storage] delete failed", err))
+					.then(refreshStorage);
+			}
+		},
+		onCancelLoad: () => jobRef.current?.cancel(),
+		onOpenLibrary: (id) => {
+			cancelJob();
+			setLoading(false);
+			setProgress(null);
+			resetLibrary();
+			void openLibrary(id);
+		},
+		onNewLibrary: () => {
+			cancelJob();
+			setLoading(false);
+			setProgress(null);
+			resetLibrary();
+		},
+		onRenameLibrary: (name) => {
+			const saved = savedLibraryRef.current;
+			const trimmed = name.trim();
+			if (!saved || !trimmed) return;
+			commitSavedLibrary({ ...saved, name: trimmed });
+			void renameLibrary(saved.id, trimmed)
+				.catch((err) => {
+					const message =
+						err instanceof Error
+							? err.message
+							: "Unable to rename the library.";
+					setError(`Rename failed: ${message}`);
+					// Roll back unless the library was switched or renamed again since.
+					const current = savedLibraryRef.current;
+					if (current?.id === saved.id && current.name === trimmed) {
+						commitSavedLibrary({ ...current, name: saved.name });
+					}
+				})
+				.then(refreshStorage);
 		},
 		onSelectRow: (index) => setSelectedIndex(index),
+		setRowSelection: (value) => setRowSelection(value),
+		clearRowSelection: () => setRowSelection({}),
 	};
 
 	return (
@@ -209,13 +660,32 @@ export function ConversationsProvider({
 			value={{
 				state: {
 					conversations,
-					fileName,
+					conversationSources,
+					indexByKey,
+					sources,
+					savedLibrary,
+					savedLibraries,
+					storageUsage,
+					persistStatus,
 					error,
 					loading,
+					progress,
 					isDragging,
 					globalFilter,
 					sorting,
+					columnFilters,
+					isFacetsOpen,
+					columnVisibility: columnLayout.visibility,
+					columnOrder: columnLayout.order,
+					columnSizing: columnLayout.sizing,
+					grouping,
+					expanded,
 					selectedIndex,
+					rowSelection,
+					checkedIndices: Object.keys(rowSelection)
+						.filter((key) => rowSelection[key])
+						.map(Number)
+						.filter(Number.isInteger),
 					rows,
 					stats,
 					selectedConversation,
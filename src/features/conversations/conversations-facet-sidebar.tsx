@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { numberFormat } from "../../lib/format";
+import { useConversations } from "./conversations-context";
+import {
+	countFacets,
+	type Facet,
+	facets,
+	formatFacetKey,
+	getFacetValues,
+	isMonthKey,
+} from "./conversations-facets";
+import { getParsedQuery } from "./conversations-query";
+
+/** Longer facets show their most common keys until expanded. */
+const COLLAPSED_KEYS = 8;
+
+type FacetOptionProps = {
+	label: string;
+	count: number;
+	checked: boolean;
+	onToggle: () => void;
+	className?: string;
+};
+
+function FacetOption({
+	label,
+	count,
+	checked,
+	onToggle,
+	className = "",
+}: FacetOptionProps) {
+	return (
+		<label
+			className={`flex cursor-pointer items-center gap-1.5 px-1 py-0.5 hover:bg-slate-900 ${className}${
+				count === 0 && !checked ? " opacity-40" : ""
+			}`}
+		>
+			<input type="checkbox" checked={checked} onChange={onToggle} />
+			<span className="min-w-0 flex-1 truncate" title={label}>
+				{label}
+			</span>
+			<span className="text-slate-500">{numberFormat.format(count)}</span>
+		</label>
+	);
+}
+
+type FacetSectionProps = {
+	facet: Facet;
+	counts: Map<string, number>;
+	checked: string[];
+	onToggle: (key: string) => void;
+};
+
+function FacetSection({ facet, counts, checked, onToggle }: FacetSectionProps) {
+	const [showAll, setShowAll] = useState(false);
+	const [openYears, setOpenYears] = useState<string[]>([]);
+
+	// Checked keys stay listed even when nothing else matches them.
+	const present = new Set([...counts.keys(), ...checked]);
+	const keys = facet.keys
+		? facet.keys.filter((key) => present.has(key))
+		: [...present].sort((a, b) =>
+				facet.id === "updateTime"
+					? b.localeCompare(a)
+					: (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || a.localeCompare(b),
+			);
+	if (keys.length === 0) return null;
+
+	const isDate = facet.id === "updateTime";
+	const topKeys = isDate ? keys.filter((key) => !isMonthKey(key)) : keys;
+	const visible = showAll ? topKeys : topKeys.slice(0, COLLAPSED_KEYS);
+
+	return (
+		<details open>
+			<summary className="cursor-pointer select-none px-1 py-0.5 text-[10px] uppercase tracking-[0.2em] text-slate-500 hover:text-slate-300">
+				{facet.label}
+				{checked.length > 0 ? (
+					<span className="ml-1 text-cyan-300">({checked.length})</span>
+				) : null}
+			</summary>
+			<div className="flex flex-col">
+				{visible.map((key) => {
+					const months = isDate
+						? keys.filter((month) => month.startsWith(`${key}-`))
+						: [];
+					const isYearOpen =
+						openYears.includes(key) ||
+						months.some((month) => checked.includes(month));
+					return (
+						<div key={key}>
+							<div className="flex items-center">
+								{isDate ? (
+									<button
+										type="button"
+										aria-label={`${isYearOpen ? "Hide" : "Show"} months of ${key}`}
+										aria-expanded={isYearOpen}
+										className="interactive w-3 text-cyan-300"
+										onClick={() =>
+											setOpenYears((old) =>
+												old.includes(key)
+													? old.filter((year) => year !== key)
+													: [...old, key],
+											)
+										}
+									>
+										{isYearOpen ? "▾" : "▸"}
+									</button>
+								) : null}
+								<FacetOption
+									className="min-w-0 flex-1"
+									label={formatFacetKey(facet, key)}
+									count={counts.get(key) ?? 0}
+									checked={checked.includes(key)}
+									onToggle={() => onToggle(key)}
+								/>
+							</div>
+							{isYearOpen
+								? months.map((month) => (
+										<FacetOption
+											key={month}
+											className="ml-4"
+											label={formatFacetKey(facet, month)}
+											count={counts.get(month) ?? 0}
+											checked={checked.includes(month)}
+											onToggle={() => onToggle(month)}
+										/>
+									))
+								: null}
+						</div>
+					);
+				})}
+				{topKeys.length > COLLAPSED_KEYS ? (
+					<button
+						type="button"
+						className="interactive px-1 text-left text-[10px] text-cyan-300 hover:text-white"
+						onClick={() => setShowAll((old) => !old)}
+					>
+						{showAll
+							? "Show fewer"
+							: `Show all ${numberFormat.format(topKeys.length)}`}
+					</button>
+				) : null}
+			</div>
+		</details>
+	);
+}
+
+export function ConversationsFacetSidebar() {
+	const {
+		state: { rows, globalFilter, columnFilters, isFacetsOpen },
+		actions: { toggleFacet, clearFacets },
+	} = useConversations();
+
+	if (!isFacetsOpen) return null;
+
+	const counts = countFacets(rows, getParsedQuery(globalFilter), columnFilters);
+
+	return (
+		<aside
+			aria-label="Facets"
+			className="flex w-52 shrink-0 flex-col gap-1 overflow-y-auto border border-slate-800 bg-slate-950/50 p-1 text-[11px] text-slate-300"
+		>
+			<div className="flex items-center justify-between px-1 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+				<span>Facets</span>
+				{columnFilters.length > 0 ? (
+					<button
+						type="button"
+						className="interactive tracking-normal normal-case text-cyan-300 hover:text-white"
+						onClick={clearFacets}
+					>
+						Clear
+					</button>
+				) : null}
+			</div>
+			{rows.length === 0 ? (
+				<p className="px-1 text-slate-500">Load a file to see facets.</p>
+			) : (
+				facets.map((facet) => (
+					<FacetSection
+						key={facet.id}
+						facet={facet}
+						counts={counts.get(facet.id) ?? new Map()}
+						checked={getFacetValues(columnFilters, facet.id)}
+						onToggle={(key) => toggleFacet(facet.id, key)}
+					/>
+				))
+			)}
+		</aside>
+	);
+}
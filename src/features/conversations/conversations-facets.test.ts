@@ -0,0 +1,101 @@
+import type { Row } from "@tanstack/react-table";
+import { describe, expect, it } from "vitest";
+import { STARRED_FILTER } from "../annotations";
+import {
+	countFacets,
+	facetFilterFn,
+	getFacet,
+	getFacetValues,
+} from "./conversations-facets";
+import { createRow as row } from "./conversations-fixtures";
+import { parseQuery } from "./conversations-query";
+import type { ConversationRow } from "./conversations-types";
+
+const rows = [
+	row({
+		title: "Rust",
+		model: "gpt-4o",
+		models: ["gpt-4o", "o1"],
+		tags: ["work"],
+		starred: true,
+		messageCount: 12,
+		codeBlockCount: 3,
+		updateTime: new Date(2024, 2, 5).getTime() / 1000,
+	}),
+	row({
+		title: "Pasta",
+		model: "gpt-4o",
+		messageCount: 4,
+		isArchived: true,
+	}),
+	row({ title: "Travel", model: "o1", tags: ["work"], messageCount: 300 }),
+];
+
+function counts(query: string, filters: Array<[string, string[]]>) {
+	const result = countFacets(
+		rows,
+		parseQuery(query),
+		filters.map(([id, value]) => ({ id, value })),
+	);
+	return (id: string) => Object.fromEntries(result.get(id) ?? []);
+}
+
+describe("facet keys", () => {
+	it("buckets rows by period, tags, models and message count", () => {
+		const [rust, , travel] = rows;
+		expect(getFacet("updateTime")?.getKeys(rust)).toEqual(["2024", "2024-03"]);
+		expect(getFacet("tags")?.getKeys(rust)).toEqual([STARRED_FILTER, "work"]);
+		expect(getFacet("model")?.getKeys(rust)).toEqual(["gpt-4o", "o1"]);
+		expect(getFacet("codeBlockCount")?.getKeys(rust)).toEqual(["Yes"]);
+		expect(getFacet("messageCount")?.getKeys(rust)).toEqual(["6–20"]);
+		expect(getFacet("messageCount")?.getKeys(travel)).toEqual(["200+"]);
+		expect(getFacet("updateTime")?.getKeys(travel)).toEqual([]);
+	});
+});
+
+describe("countFacets", () => {
+	it("counts every row when nothing is filtered", () => {
+		const facet = counts("", []);
+		expect(facet("model")).toEqual({ "gpt-4o": 2, o1: 2 });
+		expect(facet("isArchived")).toEqual({ Yes: 1, No: 2 });
+	});
+
+	it("only counts rows matching the query", () => {
+		expect(counts("-pasta", [])("isArchived")).toEqual({ No: 2 });
+	});
+
+	it("counts a facet against the other facets' filters only", () => {
+		const facet = counts("", [
+			["model", ["o1"]],
+			["isArchived", ["No"]],
+		]);
+		expect(facet("model")).toEqual({ "gpt-4o": 1, o1: 2 });
+		expect(facet("isArchived")).toEqual({ No: 2 });
+		expect(facet("tags")).toEqual({ [STARRED_FILTER]: 1, work: 2 });
+	});
+});
+
+describe("facet filters", () => {
+	it("reads checked keys from the column filters", () => {
+		const filters = [
+			{ id: "model", value: ["o1"] },
+			{ id: "title", value: "rust" },
+		];
+		expect(getFacetValues(filters, "model")).toEqual(["o1"]);
+		expect(getFacetValues(filters, "title")).toEqual([]);
+		expect(getFacetValues(filters, "tags")).toEqual([]);
+	});
+
+	it("matches rows with any checked key", () => {
+		const match = (value: ConversationRow, keys: string[]) =>
+			facetFilterFn(
+				{ original: value } as Row<ConversationRow>,
+				"model",
+				keys,
+				() => {},
+			);
+		expect(match(rows[0], ["o1", "gpt-3.5"])).toBe(true);
+		expect(match(rows[1], ["o1"])).toBe(false);
+		expect(facetFilterFn.autoRemove?.([])).toBe(true);
+	});
+});
@@ -0,0 +1,193 @@
+import type { ColumnFiltersState, FilterFn } from "@tanstack/react-table";
+import { STARRED_FILTER } from "../annotations";
+import { matchesQuery, type ParsedQuery } from "./conversations-query";
+import type { ConversationRow } from "./conversations-types";
+
+export type Facet = {
+	/** Column whose filter holds the checked keys. */
+	id: string;
+	label: string;
+	/** Distinct keys the row counts towards. */
+	getKeys: (row: ConversationRow) => string[];
+	/** Fixed key order; otherwise the most common keys come first. */
+	keys?: string[];
+	formatKey?: (key: string) => string;
+};
+
+const monthFormat = new Intl.DateTimeFormat(undefined, {
+	month: "long",
+	year: "numeric",
+});
+
+const messageRanges: Array<[string, number]> = [
+	["0", 0],
+	["1–5", 5],
+	["6–20", 20],
+	["21–50", 50],
+	["51–200", 200],
+	["200+", Number.POSITIVE_INFINITY],
+];
+
+function hasAny(count: number) {
+	return [count > 0 ? "Yes" : "No"];
+}
+
+/** `2024` and `2024-03` for a conversation last updated in March 2024. */
+function getPeriodKeys(row: ConversationRow) {
+	const time = row.updateTime ?? row.createTime;
+	if (!time) return [];
+	const date = new Date(time * 1000);
+	const year = String(date.getFullYear());
+	return [year, `${year}-${String(date.getMonth() + 1).padStart(2, "0")}`];
+}
+
+export function isMonthKey(key: string) {
+	return key.length > 4;
+}
+
+export const facets: Facet[] = [
+	{
+		id: "updateTime",
+		label: "Date",
+		getKeys: getPeriodKeys,
+		formatKey: (key) => {
+			if (!isMonthKey(key)) return key;
+			const [year, month] = key.split("-").map(Number);
+			return monthFormat.format(new Date(year, month - 1, 1));
+		},
+	},
+	{
+		id: "tags",
+		label: "Tag",
+		getKeys: (row) =>
+			row.starred ? [STARRED_FILTER, ...row.tags] : [...row.tags],
+		formatKey: (key) => (key === STARRED_FILTER ? "★ Starred" : key),
+	},
+	{
+		id: "isArchived",
+		label: "Archived",
+		getKeys: (row) => [row.isArchived ? "Yes" : "No"],
+		keys: ["Yes", "No"],
+	},
+	{
+		id: "model",
+		label: "Model",
+		getKeys: (row) =>
+			[...new Set([row.model, ...row.models])].filter(
+				(model): model is string => Boolean(model),
+			),
+	},
+	{
+		id: "gizmoId",
+		label: "Custom GPT / project",
+		getKeys: (row) => (row.gizmoId ? [row.gizmoId] : []),
+	},
+	{
+		id: "gizmoType",
+		label: "GPT type",
+		getKeys: (row) => (row.gizmoType ? [row.gizmoType] : []),
+	},
+	{
+		id: "templateId",
+		label: "Template",
+		getKeys: (row) => (row.templateId ? [row.templateId] : []),
+	},
+	{
+		id: "codeBlockCount",
+		label: "Has code",
+		getKeys: (row) => hasAny(row.codeBlockCount),
+		keys: ["Yes", "No"],
+	},
+	{
+		id: "imageCount",
+		label: "Has images",
+		getKeys: (row) => hasAny(row.imageCount),
+		keys: ["Yes", "No"],
+	},
+	{
+		id: "attachmentCount",
+		label: "Has attachments",
+		getKeys: (row) => hasAny(row.attachmentCount),
+		keys: ["Yes", "No"],
+	},
+	{
+		id: "messageCount",
+		label: "Messages",
+		getKeys: (row) => {
+			const range = messageRanges.find(([, max]) => row.messageCount <= max);
+			return range ? [range[0]] : [];
+		},
+		keys: messageRanges.map(([key]) => key),
+	},
+];
+
+const facetsById = new Map(facets.map((facet) => [facet.id, facet]));
+
+export function getFacet(id: string) {
+	return facetsById.get(id);
+}
+
+export function formatFacetKey(facet: Facet, key: string) {
+	return facet.formatKey?.(key) ?? key;
+}
+
+/** Checked keys of a facet filter; keys within one facet are ORed. */
+export function getFacetValues(filters: ColumnFiltersState, id: string) {
+	const value = filters.find((filter) => filter.id === id)?.value;
+	return Array.isArray(value) ? (value as string[]) : [];
+}
+
+export const facetFilterFn: FilterFn<ConversationRow> = (
+	row,
+	columnId,
+	value: string[],
+) => {
+	const facet = getFacet(columnId);
+	if (!facet) return true;
+	return facet.getKeys(row.original).some((key) => value.includes(key));
+};
+
+facetFilterFn.autoRemove = (value) =>
+	!Array.isArray(value) || value.length === 0;
+
+/**
+ * Counts each facet's keys over the rows that pass the query and every other
+ * facet, so a count is what checking that key would add.
+ */
+export function countFacets(
+	rows: ConversationRow[],
+	query: ParsedQuery,
+	filters: ColumnFiltersState,
+) {
+	const active = facets
+		.map((facet) => ({
+			id: facet.id,
+			getKeys: facet.getKeys,
+			values: new Set(getFacetValues(filters, facet.id)),
+		}))
+		.filter((entry) => entry.values.size > 0);
+	const counts = new Map(
+		facets.map((facet) => [facet.id, new Map<string, number>()]),
+	);
+
+	for (const row of rows) {
+		if (!matchesQuery(row, query)) continue;
+		const failed: string[] = [];
+		for (const entry of active) {
+			if (!entry.getKeys(row).some((key) => entry.values.has(key))) {
+				failed.push(entry.id);
+				if (failed.length > 1) break;
+			}
+		}
+		if (failed.length > 1) continue;
+		for (const facet of facets) {
+			if (failed.length === 1 && failed[0] !== facet.id) continue;
+			const facetCounts = counts.get(facet.id);
+			if (!facetCounts) continue;
+			for (const key of facet.getKeys(row)) {
+				facetCounts.set(key, (facetCounts.get(key) ?? 0) + 1);
+			}
+		}
+	}
+	return counts;
+}
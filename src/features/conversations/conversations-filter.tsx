@@ -1,26 +1,191 @@
+import { type KeyboardEvent, useRef, useState } from "react";
 import { Toolbar } from "../../components/toolbar";
+import { Annotations } from "../annotations";
+import { Shortcuts } from "../shortcuts";
+import { ConversationsColumnMenu } from "./conversations-column-menu";
+import { groupingOptions } from "./conversations-columns";
 import { useConversations } from "./conversations-context";
+import {
+	formatFacetKey,
+	getFacet,
+	getFacetValues,
+} from "./conversations-facets";
+import { getParsedQuery, getQuerySuggestions } from "./conversations-query";
+
+const selectClass =
+	"interactive h-full min-w-0 flex-1 border border-slate-800 bg-slate-950/80 px-1 text-[11px] text-slate-200 focus:outline-none focus:border-cyan-400/70";
 
 export function ConversationsFilter() {
 	const {
-		state: { globalFilter },
-		actions: { setGlobalFilter },
+		state: { rows, globalFilter, columnFilters, grouping, isFacetsOpen },
+		actions: {
+			setGlobalFilter,
+			setGrouping,
+			toggleFacet,
+			clearFacets,
+			setIsFacetsOpen,
+			clearRowSelection,
+		},
 	} = useConversations();
+	const inputRef = useRef<HTMLInputElement | null>(null);
+
+	Shortcuts.useShortcutHandlers({
+		focusFilter: () => {
+			inputRef.current?.focus();
+			inputRef.current?.select();
+		},
+		// The first Esc clears the query, the next one the checked rows.
+		clear: () => {
+			if (globalFilter) {
+				setGlobalFilter("");
+			} else {
+				clearRowSelection();
+			}
+			inputRef.current?.blur();
+		},
+	});
+
+	const [showSuggestions, setShowSuggestions] = useState(false);
+	const [activeSuggestion, setActiveSuggestion] = useState(0);
+	const { error } = getParsedQuery(globalFilter);
+	const suggestions = showSuggestions
+		? getQuerySuggestions(globalFilter, rows)
+		: [];
+	const highlighted = Math.min(activeSuggestion, suggestions.length - 1);
+
+	const applySuggestion = (value: string) => {
+		setGlobalFilter(value);
+		setActiveSuggestion(0);
+	};
+
+	const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+		if (suggestions.length === 0) return;
+		if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+			event.preventDefault();
+			const step = event.key === "ArrowDown" ? 1 : -1;
+			setActiveSuggestion(
+				(highlighted + step + suggestions.length) % suggestions.length,
+			);
+		} else if (event.key === "Tab" || event.key === "Enter") {
+			event.preventDefault();
+			applySuggestion(suggestions[highlighted].value);
+		} else if (event.key === "Escape") {
+			// Closing the list shouldn't also clear the filter.
+			event.preventDefault();
+			setShowSuggestions(false);
+		}
+	};
+
+	const chips = columnFilters.flatMap((filter) => {
+		const facet = getFacet(filter.id);
+		return facet
+			? getFacetValues(columnFilters, facet.id).map((key) => ({ facet, key }))
+			: [];
+	});
 
 	return (
 		<Toolbar
-			className="flex items-center gap-2"
+			className="flex flex-col gap-1"
 			rowClass="flex items-center gap-2 h-7"
 		>
-			<Toolbar.Row className="w-full">
+			<Toolbar.Row className="relative w-full">
+				<Toolbar.Button
+					aria-pressed={isFacetsOpen}
+					className={isFacetsOpen ? "border-cyan-400/70" : undefined}
+					onClick={() => setIsFacetsOpen((open) => !open)}
+				>
+					Facets
+				</Toolbar.Button>
 				<span className="text-slate-500">[?]</span>
 				<Toolbar.Input
+					ref={inputRef}
 					value={globalFilter}
-					onChange={(event) => setGlobalFilter(event.target.value)}
-					placeholder="Filter conversations"
-					className="w-full py-1"
+					onChange={(event) => {
+						setGlobalFilter(event.target.value);
+						setShowSuggestions(true);
+						setActiveSuggestion(0);
+					}}
+					onFocus={() => setShowSuggestions(true)}
+					onBlur={() => setShowSuggestions(false)}
+					onKeyDown={handleKeyDown}
+					placeholder='Filter: title:"…" model:gpt-4o messages>50 after:2024 -archived:yes OR …'
+					aria-invalid={error ? true : undefined}
+					className={`w-full py-1${error ? " border-rose-400/70" : ""}`}
 				/>
+				{suggestions.length > 0 ? (
+					<ul className="absolute left-6 right-0 top-full z-20 mt-0.5 border border-slate-700 bg-slate-950/95 text-[11px] shadow-lg">
+						{suggestions.map((suggestion, index) => (
+							<li key={suggestion.label}>
+								<button
+									type="button"
+									className={`flex w-full items-center justify-between gap-3 px-2 py-0.5 text-left ${
+										index === highlighted
+											? "bg-slate-800 text-cyan-200"
+											: "text-slate-300 hover:bg-slate-900"
+									}`}
+									// Keep focus in the input so blur doesn't hide the list first.
+									onMouseDown={(event) => event.preventDefault()}
+									onClick={() => applySuggestion(suggestion.value)}
+								>
+									<span>{suggestion.label}</span>
+									<span className="text-slate-500">{suggestion.hint}</span>
+								</button>
+							</li>
+						))}
+					</ul>
+				) : null}
+				<select
+					aria-label="Group by"
+					className={`${selectClass} max-w-28 flex-none`}
+					value={grouping[0] ?? ""}
+					onChange={(event) =>
+						setGrouping(event.target.value ? [event.target.value] : [])
+					}
+				>
+					<option value="">No grouping</option>
+					{groupingOptions.map((option) => (
+						<option key={option.id} value={option.id}>
+							Group: {option.label}
+						</option>
+					))}
+				</select>
+				<Annotations.Menu />
+				<ConversationsColumnMenu />
 			</Toolbar.Row>
+			{error ? (
+				<Toolbar.Text className="text-rose-300">
+					{error.message} (at character {error.position + 1}) — matching as
+					plain text
+				</Toolbar.Text>
+			) : null}
+			{chips.length > 0 ? (
+				<div className="flex w-full flex-wrap items-center gap-1">
+					{chips.map(({ facet, key }) => (
+						<span
+							key={`${facet.id}:${key}`}
+							className="inline-flex items-center gap-1 border border-slate-700 bg-slate-900/60 px-1.5 text-[10px] text-cyan-200"
+						>
+							<span className="text-slate-500">{facet.label}:</span>
+							{formatFacetKey(facet, key)}
+							<button
+								type="button"
+								aria-label={`Remove ${facet.label} ${formatFacetKey(facet, key)}`}
+								className="interactive text-slate-500 hover:text-rose-300"
+								onClick={() => toggleFacet(facet.id, key)}
+							>
+								×
+							</button>
+						</span>
+					))}
+					<button
+						type="button"
+						className="interactive text-[10px] text-cyan-300 hover:text-white"
+						onClick={clearFacets}
+					>
+						Clear all
+					</button>
+				</div>
+			) : null}
 		</Toolbar>
 	);
 }
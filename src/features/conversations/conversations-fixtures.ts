@@ -0,0 +1,31 @@
+import type { ConversationRow } from "./conversations-types";
+
+/** A table row for tests: empty metrics, overridden where a test needs it. */
+export function createRow(
+	overrides: Partial<ConversationRow> = {},
+): ConversationRow {
+	return {
+		id: "row-1",
+		title: "Untitled",
+		messageCount: 0,
+		userCount: 0,
+		assistantCount: 0,
+		isArchived: false,
+		provider: "chatgpt",
+		models: [],
+		sources: [],
+		tags: [],
+		starred: false,
+		note: "",
+		sourceIndex: 0,
+		wordCount: 0,
+		charCount: 0,
+		tokenEstimate: 0,
+		codeBlockCount: 0,
+		imageCount: 0,
+		attachmentCount: 0,
+		duration: 0,
+		avgReplyWords: 0,
+		...overrides,
+	};
+}
@@ -1,13 +1,31 @@
 import { useEffect, useRef, useState } from "react";
 import { HiddenInput } from "../../components/hidden-input";
 import { Toolbar } from "../../components/toolbar";
-import { numberFormat } from "../../lib/format";
+import { formatBytes, numberFormat } from "../../lib/format";
 import { useConversations } from "./conversations-context";
 
 export function ConversationsHeader() {
 	const {
-		state: { isDragging, fileName, loading, error, stats },
-		actions: { onFileChange, onClear },
+		state: {
+			isDragging,
+			sources,
+			savedLibrary,
+			savedLibraries,
+			storageUsage,
+			persistStatus,
+			loading,
+			progress,
+			error,
+			stats,
+		},
+		actions: {
+			onFileChange,
+			onClear,
+			onCancelLoad,
+			onOpenLibrary,
+			onNewLibrary,
+			onRenameLibrary,
+		},
 	} = useConversations();
 	const [isHelpOpen, setIsHelpOpen] = useState(false);
 	const helpRef = useRef<HTMLDivElement | null>(null);
@@ -40,7 +58,7 @@ export function ConversationsHeader() {
 					onClick={() => inputRef.current?.click()}
 				>
 					<span className="text-cyan-300">[+]</span>
-					<span>Load file</span>
+					<span>{sources.length > 0 ? "Add export" : "Load file"}</span>
 				</Toolbar.Button>
 				<div className="relative" ref={helpRef}>
 					<Toolbar.IconButton
@@ -58,8 +76,10 @@ export function ConversationsHeader() {
 								<li>Export data</li>
 								<li>Confirm export</li>
 								<li>Download from email</li>
-								<li>Unzip the download</li>
-								<li>Upload conversations.json from the unzipped folder</li>
+								<li>
+									Upload the .zip as-is, or conversations.json from the unzipped
+									folder
+								</li>
 							</ol>
 						</div>
 					) : null}
@@ -67,12 +87,73 @@ export function ConversationsHeader() {
 				<HiddenInput
 					ref={inputRef}
 					type="file"
-					accept=".json,application/json"
+					accept=".json,.zip,application/json,application/zip"
+					multiple
 					onChange={onFileChange}
 				/>
-				<Toolbar.Text>{fileName ?? "No file loaded"}</Toolbar.Text>
+				{savedLibraries.length > 0 ? (
+					<select
+						aria-label="Saved library"
+						className="interactive h-full max-w-48 border border-slate-800 bg-slate-950/80 px-1 text-[11px] text-slate-200 focus:outline-none focus:border-cyan-400/70"
+						value={savedLibrary?.id ?? ""}
+						onChange={(event) => {
+							if (event.target.value) {
+								onOpenLibrary(event.target.value);
+							} else {
+								onNewLibrary();
+							}
+						}}
+					>
+						<option value="">New library</option>
+						{savedLibraries.map((item) => (
+							<option key={item.id} value={item.id}>
+								{item.name} ({numberFormat.format(item.conversationCount)})
+							</option>
+						))}
+					</select>
+				) : null}
+				{savedLibrary ? (
+					<Toolbar.Button
+						onClick={() => {
+							const name = window.prompt("Library name", savedLibrary.name);
+							if (name !== null) onRenameLibrary(name);
+						}}
+					>
+						Rename
+					</Toolbar.Button>
+				) : null}
+				<Toolbar.Text
+					className="max-w-72 truncate"
+					title={sources.map((source) => source.name).join("\n")}
+				>
+					{sources.length === 0
+						? "No file loaded"
+						: sources.length === 1
+							? sources[0].name
+							: `${sources.length} exports merged`}
+				</Toolbar.Text>
 				{loading ? (
-					<Toolbar.Text className="text-cyan-300">Parsing…</Toolbar.Text>
+					<>
+						<Toolbar.Text className="text-cyan-300">
+							Parsing…
+							{progress
+								? ` ${formatBytes(progress.bytesRead)} / ${formatBytes(
+										progress.totalBytes,
+									)} · ${numberFormat.format(progress.conversationsParsed)} convos`
+								: null}
+						</Toolbar.Text>
+						<Toolbar.Button
+							onClick={onCancelLoad}
+							className="hover:border-rose-400/70 hover:text-white transition"
+						>
+							<span className="text-rose-300">[■]</span> Cancel
+						</Toolbar.Button>
+					</>
+				) : null}
+				{persistStatus !== "idle" ? (
+					<Toolbar.Text className="text-cyan-300">
+						{persistStatus === "saving" ? "Saving…" : "Restoring…"}
+					</Toolbar.Text>
 				) : null}
 				{error ? (
 					<Toolbar.Text className="text-rose-300">{error}</Toolbar.Text>
@@ -99,6 +180,15 @@ export function ConversationsHeader() {
 						{numberFormat.format(stats.archived)}
 					</span>
 				</Toolbar.Text>
+				{storageUsage ? (
+					<Toolbar.Text title="Browser storage used by saved libraries. Export zips aren't saved; add one again to see its images and attachments.">
+						Storage:{" "}
+						<span className="text-slate-200">
+							{formatBytes(storageUsage.usage)}
+						</span>{" "}
+						/ {formatBytes(storageUsage.quota)}
+					</Toolbar.Text>
+				) : null}
 			</Toolbar.Row>
 		</Toolbar>
 	);
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { detectImporter } from "./conversations-importers";
+import type { Conversation } from "./conversations-types";
+import { extractMessages } from "./conversations-utils";
+
+function convert(record: Record<string, unknown>) {
+	const importer = detectImporter(record);
+	return { id: importer?.id, conversation: importer?.convert(record) ?? null };
+}
+
+function transcript(conversation: Conversation | null) {
+	if (!conversation) return [];
+	return extractMessages(conversation).map(
+		(message) => `${message.authorRole}: ${message.text}`,
+	);
+}
+
+describe("Claude importer", () => {
+	const record = {
+		uuid: "c-1",
+		name: "Trip plan",
+		created_at: "2024-05-01T10:00:00Z",
+		updated_at: "2024-05-01T11:00:00Z",
+		chat_messages: [
+			{
+				uuid: "m-1",
+				sender: "human",
+				text: "Plan a trip",
+				created_at: "2024-05-01T10:00:00Z",
+			},
+			{
+				uuid: "m-2",
+				parent_message_uuid: "m-1",
+				sender: "assistant",
+				content: [
+					{ type: "text", text: "Day one:" },
+					{ type: "tool_use", name: "search" },
+					{ type: "text", text: "the coast." },
+				],
+				created_at: "2024-05-01T10:01:00Z",
+			},
+			null,
+		],
+	};
+
+	it("converts conversations into a mapping tree", () => {
+		const { id, conversation } = convert(record);
+		expect(id).toBe("claude");
+		expect(conversation).toMatchObject({
+			id: "c-1",
+			conversation_id: "c-1",
+			title: "Trip plan",
+			create_time: Date.parse("2024-05-01T10:00:00Z") / 1000,
+			current_node: "m-2",
+			provider: "claude",
+		});
+		expect(transcript(conversation)).toEqual([
+			"user: Plan a trip",
+			"assistant: Day one:\nthe coast.",
+		]);
+	});
+
+	it("keeps edited branches under their parent", () => {
+		const { conversation } = convert({
+			...record,
+			chat_messages: [
+				...record.chat_messages,
+				{
+					uuid: "m-3",
+					parent_message_uuid: "m-1",
+					sender: "assistant",
+					text: "Retry",
+				},
+			],
+		});
+		expect(conversation?.mapping?.["m-1"]?.children).toEqual(["m-2", "m-3"]);
+	});
+});
+
+describe("Gemini importer", () => {
+	const record = {
+		header: "Gemini Apps",
+		title: "Prompted What is a monad?",
+		time: "2024-06-02T08:30:00Z",
+		safeHtmlItem: [
+			{
+				html: "<p>A <b>monad</b> is&nbsp;a pattern.</p><ul><li>bind</li><li>unit &amp; return</li></ul>",
+			},
+		],
+	};
+
+	it("turns a prompt activity into a two-message conversation", () => {
+		const { id, conversation } = convert(record);
+		expect(id).toBe("gemini");
+		expect(conversation?.title).toBe("What is a monad?");
+		expect(conversation?.provider).toBe("gemini");
+		expect(transcript(conversation)).toEqual([
+			"user: What is a monad?",
+			"assistant: A monad is a pattern.\n- bind\n- unit & return",
+		]);
+	});
+
+	it("gives the same record the same ID", () => {
+		expect(convert(record).conversation?.id).toBe(
+			convert({ ...record }).conversation?.id,
+		);
+	});
+
+	it("matches Bard records by product and skips non-prompt activity", () => {
+		const { id, conversation } = convert({
+			products: ["Bard"],
+			title: "Used an extension",
+			time: "2023-01-01T00:00:00Z",
+		});
+		expect(id).toBe("gemini");
+		expect(conversation).toBeNull();
+	});
+});
+
+describe("detectImporter", () => {
+	it("falls back to ChatGPT for its loose shape, and to nothing", () => {
+		expect(detectImporter({ mapping: {} })?.id).toBe("chatgpt");
+		expect(detectImporter({ foo: 1 })).toBeNull();
+	});
+});
@@ -0,0 +1,210 @@
+import type { Conversation, MappingNode } from "./conversations-types";
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Converts one record of a chat export into the ChatGPT `Conversation` shape.
+ * `convert` returns null for records the format knows but cannot display.
+ */
+export type ChatImporter = {
+	id: string;
+	label: string;
+	matches: (record: RawRecord) => boolean;
+	convert: (record: RawRecord) => Conversation | null;
+};
+
+type ChainMessage = {
+	id: string;
+	parentId?: string;
+	role: string;
+	text: string;
+	createTime?: number;
+};
+
+function toSeconds(value: unknown) {
+	if (typeof value !== "string") return undefined;
+	const time = Date.parse(value);
+	return Number.isNaN(time) ? undefined : time / 1000;
+}
+
+function asString(value: unknown) {
+	return typeof value === "string" ? value : "";
+}
+
+function hashString(value: string) {
+	let hash = 0;
+	for (let index = 0; index < value.length; index += 1) {
+		hash = (hash * 31 + value.charCodeAt(index)) | 0;
+	}
+	return (hash >>> 0).toString(36);
+}
+
+/** Builds a mapping tree; messages without a known parent follow the previous one. */
+function buildMapping(messages: ChainMessage[]) {
+	const rootId = "import-root";
+	const mapping: Record<string, MappingNode> = {
+		[rootId]: { id: rootId, parent: null, children: [] },
+	};
+	let previous = rootId;
+	for (const message of messages) {
+		mapping[message.id] = {
+			id: message.id,
+			parent: null,
+			children: [],
+			message: {
+				author: { role: message.role },
+				create_time: message.createTime,
+				content: { content_type: "text", parts: [message.text] },
+			},
+		};
+	}
+	for (const message of messages) {
+		const parent =
+			message.parentId && mapping[message.parentId]
+				? message.parentId
+				: previous;
+		mapping[message.id].parent = parent;
+		mapping[parent].children?.push(message.id);
+		previous = message.id;
+	}
+	return { mapping, currentNode: previous === rootId ? undefined : previous };
+}
+
+const claudeImporter: ChatImporter = {
+	id: "claude",
+	label: "Claude",
+	matches: (record) =>
+		typeof record.uuid === "string" && Array.isArray(record.chat_messages),
+	convert: (record) => {
+		const messages = (record.chat_messages as RawRecord[])
+			.filter((message) => message && typeof message === "object")
+			.map((message, index): ChainMessage => {
+				const blocks = Array.isArray(message.content)
+					? (message.content as RawRecord[])
+					: [];
+				const text =
+					blocks
+						.filter((block) => block?.type === "text")
+						.map((block) => asString(block.text))
+						.join("\n")
+						.trim() || asString(message.text);
+				return {
+					id: asString(message.uuid) || `claude-${index}`,
+					parentId: asString(message.parent_message_uuid) || undefined,
+					role: message.sender === "human" ? "user" : asString(message.sender),
+					text,
+					createTime: toSeconds(message.created_at),
+				};
+			});
+		const { mapping, currentNode } = buildMapping(messages);
+		const id = record.uuid as string;
+		return {
+			id,
+			conversation_id: id,
+			title: asString(record.name),
+			create_time: toSeconds(record.created_at),
+			update_time: toSeconds(record.updated_at),
+			mapping,
+			current_node: currentNode,
+			provider: "claude",
+		};
+	},
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	nbsp: " ",
+};
+
+// Workers have no DOMParser, so Takeout's HTML answers are flattened by hand.
+function htmlToText(html: string) {
+	return html
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|li|h[1-6]|pre|tr)>/gi, "\n")
+		.replace(/<li[^>]*>/gi, "- ")
+		.replace(/<[^>]+>/g, "")
+		.replace(/&(#\d+|#x[\da-f]+|\w+);/gi, (entity, code: string) => {
+			if (code.startsWith("#x") || code.startsWith("#X")) {
+				return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+			}
+			if (code.startsWith("#")) {
+				return String.fromCodePoint(Number.parseInt(code.slice(1), 10));
+			}
+			return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+		})
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+const GEMINI_PRODUCTS = ["Gemini Apps", "Bard"];
+
+const geminiImporter: ChatImporter = {
+	id: "gemini",
+	label: "Gemini (Takeout activity)",
+	matches: (record) =>
+		typeof record.time === "string" &&
+		(GEMINI_PRODUCTS.includes(asString(record.header)) ||
+			(Array.isArray(record.products) &&
+				record.products.some((product) =>
+					GEMINI_PRODUCTS.includes(asString(product)),
+				))),
+	convert: (record) => {
+		const title = asString(record.title);
+		if (!title.startsWith("Prompted ")) return null;
+		const prompt = title.slice("Prompted ".length).trim();
+		const createTime = toSeconds(record.time);
+		const answer = Array.isArray(record.safeHtmlItem)
+			? (record.safeHtmlItem as RawRecord[])
+					.map((item) => htmlToText(asString(item?.html)))
+					.join("\n\n")
+			: "";
+		const id = `gemini-${hashString(`${record.time}:${prompt}`)}`;
+		const messages: ChainMessage[] = [
+			{ id: `${id}-prompt`, role: "user", text: prompt, createTime },
+		];
+		if (answer) {
+			messages.push({
+				id: `${id}-answer`,
+				role: "assistant",
+				text: answer,
+				createTime,
+			});
+		}
+		const { mapping, currentNode } = buildMapping(messages);
+		return {
+			id,
+			conversation_id: id,
+			title: prompt.length > 80 ? `${prompt.slice(0, 77)}…` : prompt,
+			create_time: createTime,
+			update_time: createTime,
+			mapping,
+			current_node: currentNode,
+			provider: "gemini",
+		};
+	},
+};
+
+const chatgptImporter: ChatImporter = {
+	id: "chatgpt",
+	label: "ChatGPT",
+	matches: (record) =>
+		"mapping" in record ||
+		"title" in record ||
+		"id" in record ||
+		"conversation_id" in record,
+	convert: (record) => record as Conversation,
+};
+
+/** Checked in order; ChatGPT's loose shape check must stay last. */
+export const importers: ChatImporter[] = [
+	claudeImporter,
+	geminiImporter,
+	chatgptImporter,
+];
+
+export function detectImporter(record: RawRecord) {
+	return importers.find((importer) => importer.matches(record)) ?? null;
+}
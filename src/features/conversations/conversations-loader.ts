@@ -0,0 +1,92 @@
+import type { ZipEntry } from "../../lib/zip";
+import type {
+	Conversation,
+	ImportReport,
+	LoadProgress,
+	WorkerRequest,
+	WorkerResponse,
+} from "./conversations-types";
+
+type ParseHandlers = {
+	onProgress: (progress: LoadProgress) => void;
+	onBatch: (conversations: Conversation[]) => void;
+};
+
+export type ParseResult = {
+	count: number;
+	report: ImportReport;
+};
+
+export type ParseJob = {
+	done: Promise<ParseResult>;
+	cancel: () => void;
+};
+
+export class ImportCancelledError extends Error {
+	constructor() {
+		super("Import cancelled.");
+		this.name = "ImportCancelledError";
+	}
+}
+
+export function parseConversations(
+	file: Blob,
+	entry: ZipEntry | null,
+	{ onProgress, onBatch }: ParseHandlers,
+): ParseJob {
+	const worker = new Worker(
+		new URL("./conversations-worker.ts", import.meta.url),
+		{ type: "module" },
+	);
+	let settle: ((error: Error | null, result?: ParseResult) => void) | null =
+		null;
+
+	const done = new Promise<ParseResult>((resolve, reject) => {
+		settle = (error, result) => {
+			settle = null;
+			worker.terminate();
+			if (error || !result) {
+				reject(error);
+			} else {
+				resolve(result);
+			}
+		};
+	});
+
+	worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+		const message = event.data;
+		switch (message.type) {
+			case "progress":
+				onProgress({
+					bytesRead: message.bytesRead,
+					totalBytes: message.totalBytes,
+					conversationsParsed: message.conversationsParsed,
+				});
+				break;
+			case "batch":
+				onBatch(message.conversations);
+				break;
+			case "done":
+				settle?.(null, {
+					count: message.conversationsParsed,
+					report: message.report,
+				});
+				break;
+			case "error":
+				settle?.(new Error(message.message));
+				break;
+		}
+	};
+	worker.onerror = (event) => {
+		event.preventDefault();
+		settle?.(new Error(event.message || "The import worker crashed."));
+	};
+
+	const request: WorkerRequest = { type: "parse", file, entry };
+	worker.postMessage(request);
+
+	return {
+		done,
+		cancel: () => settle?.(new ImportCancelledError()),
+	};
+}
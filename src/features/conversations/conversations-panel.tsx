@@ -1,14 +1,23 @@
 import type { IDockviewPanelProps } from "dockview";
+import { Shortcuts } from "../shortcuts";
+import { ConversationsBulkBar } from "./conversations-bulk-bar";
+import { ConversationsFacetSidebar } from "./conversations-facet-sidebar";
 import { ConversationsFilter } from "./conversations-filter";
 import { ConversationsHeader } from "./conversations-header";
 import { ConversationsTable } from "./conversations-table";
 
-export function ConversationsPanel(_props: IDockviewPanelProps) {
+export function ConversationsPanel(props: IDockviewPanelProps) {
 	return (
-		<div className="h-full flex flex-col gap-2 p-2">
-			<ConversationsHeader />
-			<ConversationsFilter />
-			<ConversationsTable />
-		</div>
+		<Shortcuts.Scope id={props.api.id}>
+			<div className="h-full flex flex-col gap-2 p-2">
+				<ConversationsHeader />
+				<ConversationsFilter />
+				<ConversationsBulkBar />
+				<div className="flex flex-1 min-h-0 gap-2">
+					<ConversationsFacetSidebar />
+					<ConversationsTable />
+				</div>
+			</div>
+		</Shortcuts.Scope>
 	);
 }
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { createRow as row } from "./conversations-fixtures";
+import {
+	getQuerySuggestions,
+	matchesQuery,
+	parseQuery,
+} from "./conversations-query";
+
+function seconds(year: number, month: number, day: number) {
+	return new Date(year, month - 1, day).getTime() / 1000;
+}
+
+const rows = {
+	rust: row({
+		id: "a",
+		title: "Rust lifetimes",
+		model: "gpt-4o",
+		messageCount: 80,
+		wordCount: 2500,
+		duration: 3 * 60 * 60,
+		tags: ["work"],
+		templateId: "g-template",
+		updateTime: seconds(2024, 3, 5),
+	}),
+	recipe: row({
+		id: "b",
+		title: "Pasta recipe",
+		model: "gpt-3.5",
+		messageCount: 4,
+		isArchived: true,
+		starred: true,
+		updateTime: seconds(2023, 11, 20),
+	}),
+};
+
+function filter(query: string) {
+	const parsed = parseQuery(query);
+	return Object.entries(rows)
+		.filter(([, value]) => matchesQuery(value, parsed))
+		.map(([key]) => key);
+}
+
+describe("parseQuery", () => {
+	it("parses fields, numbers, flags and dates", () => {
+		expect(
+			parseQuery('title:"two words" messages>50 archived:no after:2024-03')
+				.groups,
+		).toEqual([
+			[
+				{ kind: "field", field: "title", value: "two words", negate: false },
+				{
+					kind: "number",
+					field: "messageCount",
+					op: ">",
+					value: 50,
+					negate: false,
+				},
+				{ kind: "flag", field: "isArchived", value: false, negate: false },
+				{
+					kind: "date",
+					field: "after",
+					start: seconds(2024, 3, 1),
+					end: seconds(2024, 4, 1),
+					negate: false,
+				},
+			],
+		]);
+	});
+
+	it("reads amounts with suffixes and durations with units", () => {
+		const [[words, duration, plain]] = parseQuery(
+			"words:>=2.5k duration>90s duration<2",
+		).groups;
+		expect(words).toMatchObject({ op: ">=", value: 2500 });
+		expect(duration).toMatchObject({ op: ">", value: 90 });
+		expect(plain).toMatchObject({ op: "<", value: 120 });
+	});
+
+	it("splits OR groups and keeps negation", () => {
+		expect(parseQuery("-rust OR pasta").groups).toEqual([
+			[{ kind: "text", value: "rust", negate: true }],
+			[{ kind: "text", value: "pasta", negate: false }],
+		]);
+	});
+
+	it("leaves URLs and non-numeric comparisons to text search", () => {
+		expect(parseQuery("https://example.com a<b").groups).toEqual([
+			[
+				{ kind: "text", value: "https://example.com", negate: false },
+				{ kind: "text", value: "a<b", negate: false },
+			],
+		]);
+	});
+
+	it("reports errors and falls back to a substring search", () => {
+		expect(parseQuery("colour:red")).toEqual({
+			groups: [[{ kind: "text", value: "colour:red", negate: false }]],
+			error: { message: 'Unknown field "colour:"', position: 0 },
+		});
+		expect(parseQuery('a "open').error?.message).toBe("Unclosed quote");
+		expect(parseQuery("messages>lots").error?.message).toBe(
+			"Expected a number after messages>",
+		);
+		expect(parseQuery("a OR").error?.message).toBe(
+			"OR needs a term on both sides",
+		);
+		expect(parseQuery("created:2024-13").error).not.toBeNull();
+	});
+});
+
+describe("matchesQuery", () => {
+	it("matches everything for an empty query", () => {
+		expect(filter("  ")).toEqual(["rust", "recipe"]);
+	});
+
+	it("filters by text, fields and counts", () => {
+		expect(filter("RUST")).toEqual(["rust"]);
+		expect(filter("model:3.5")).toEqual(["recipe"]);
+		expect(filter("tag:work")).toEqual(["rust"]);
+		expect(filter("template:g-temp")).toEqual(["rust"]);
+		expect(filter("messages:<=4")).toEqual(["recipe"]);
+		expect(filter("words>2k duration>=3h")).toEqual(["rust"]);
+	});
+
+	it("filters by flags and dates", () => {
+		expect(filter("archived:yes")).toEqual(["recipe"]);
+		expect(filter("starred:false")).toEqual(["rust"]);
+		expect(filter("updated:2024")).toEqual(["rust"]);
+		expect(filter("before:2024-01-01")).toEqual(["recipe"]);
+	});
+
+	it("ANDs terms, ORs groups and negates", () => {
+		expect(filter("rust archived:yes")).toEqual([]);
+		expect(filter("rust OR archived:yes")).toEqual(["rust", "recipe"]);
+		expect(filter("-pasta")).toEqual(["rust"]);
+	});
+});
+
+describe("getQuerySuggestions", () => {
+	it("completes field names", () => {
+		expect(
+			getQuerySuggestions("rust -arch", []).map((item) => item.value),
+		).toEqual(["rust -archived:"]);
+	});
+
+	it("completes values by how often they occur", () => {
+		const suggestions = getQuerySuggestions("model:gpt", [
+			rows.rust,
+			rows.recipe,
+			row({ model: "gpt-4o" }),
+		]);
+		expect(suggestions.map(({ label, hint }) => [label, hint])).toEqual([
+			["model:gpt-4o", "2"],
+			["model:gpt-3.5", "1"],
+		]);
+	});
+
+	it("quotes values with spaces", () => {
+		expect(
+			getQuerySuggestions("tag:", [row({ tags: ["to read"] })])[0].value,
+		).toBe('tag:"to read" ');
+	});
+});
@@ -0,0 +1,541 @@
+import type { ConversationRow } from "./conversations-types";
+
+type TextField =
+	| "title"
+	| "model"
+	| "provider"
+	| "template"
+	| "source"
+	| "gpt"
+	| "id"
+	| "tag";
+type FlagField = "isArchived" | "starred";
+type NumberField =
+	| "messageCount"
+	| "userCount"
+	| "assistantCount"
+	| "wordCount"
+	| "charCount"
+	| "tokenEstimate"
+	| "codeBlockCount"
+	| "imageCount"
+	| "attachmentCount"
+	| "duration"
+	| "avgReplyWords";
+type DateField = "before" | "after" | "created" | "updated";
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+export type QueryTerm = { negate: boolean } & (
+	| { kind: "text"; value: string }
+	| { kind: "field"; field: TextField; value: string }
+	| { kind: "number"; field: NumberField; op: Comparison; value: number }
+	| { kind: "date"; field: DateField; start: number; end: number }
+	| { kind: "flag"; field: FlagField; value: boolean }
+);
+
+export type QueryError = {
+	message: string;
+	position: number;
+};
+
+/** Terms inside a group are ANDed; groups are ORed. */
+export type ParsedQuery = {
+	groups: QueryTerm[][];
+	error: QueryError | null;
+};
+
+type FieldInfo = {
+	name: string;
+	hint: string;
+	operator: ":" | ">";
+};
+
+export const queryFields: FieldInfo[] = [
+	{ name: "title", hint: "title contains", operator: ":" },
+	{ name: "model", hint: "default or answering model", operator: ":" },
+	{ name: "provider", hint: "chatgpt, claude, gemini", operator: ":" },
+	{ name: "source", hint: "export file name", operator: ":" },
+	{ name: "gpt", hint: "custom GPT or project ID", operator: ":" },
+	{ name: "template", hint: "conversation template ID", operator: ":" },
+	{ name: "id", hint: "conversation or record ID", operator: ":" },
+	{ name: "tag", hint: "annotation tag", operator: ":" },
+	{ name: "archived", hint: "yes or no", operator: ":" },
+	{ name: "starred", hint: "yes or no", operator: ":" },
+	{ name: "before", hint: "updated before a date", operator: ":" },
+	{ name: "after", hint: "updated on or after a date", operator: ":" },
+	{ name: "created", hint: "created in a year, month or day", operator: ":" },
+	{ name: "updated", hint: "updated in a year, month or day", operator: ":" },
+	{ name: "messages", hint: "message count, e.g. messages>50", operator: ">" },
+	{ name: "user", hint: "user message count", operator: ">" },
+	{ name: "assistant", hint: "assistant message count", operator: ">" },
+	{ name: "words", hint: "word count, e.g. words>2k", operator: ">" },
+	{ name: "chars", hint: "character count", operator: ">" },
+	{ name: "tokens", hint: "estimated tokens", operator: ">" },
+	{ name: "code", hint: "code blocks", operator: ">" },
+	{ name: "images", hint: "images in messages", operator: ">" },
+	{ name: "files", hint: "attachments", operator: ">" },
+	{ name: "duration", hint: "first to last message, e.g. 2h", operator: ">" },
+	{ name: "reply", hint: "average assistant reply in words", operator: ">" },
+];
+
+const TEXT_FIELDS: Record<string, TextField> = {
+	title: "title",
+	model: "model",
+	provider: "provider",
+	source: "source",
+	gpt: "gpt",
+	gizmo: "gpt",
+	project: "gpt",
+	template: "template",
+	id: "id",
+	tag: "tag",
+};
+
+const FLAG_FIELDS: Record<string, FlagField> = {
+	archived: "isArchived",
+	starred: "starred",
+};
+
+const NUMBER_FIELDS: Record<string, NumberField> = {
+	messages: "messageCount",
+	messagecount: "messageCount",
+	user: "userCount",
+	usercount: "userCount",
+	assistant: "assistantCount",
+	assistantcount: "assistantCount",
+	words: "wordCount",
+	chars: "charCount",
+	tokens: "tokenEstimate",
+	code: "codeBlockCount",
+	images: "imageCount",
+	files: "attachmentCount",
+	attachments: "attachmentCount",
+	duration: "duration",
+	reply: "avgReplyWords",
+};
+
+const DURATION_UNITS: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 60 * 60,
+	d: 24 * 60 * 60,
+};
+
+/**
+ * Reads `50`, `2k` or `1.5m`; durations take `s`, `m` (the default), `h` or
+ * `d` and come back in seconds.
+ */
+function parseAmount(field: NumberField, value: string) {
+	const match = /^(\d+(?:\.\d+)?|\.\d+)([a-z]?)$/i.exec(value);
+	if (!match) return null;
+	const number = Number(match[1]);
+	const unit = match[2].toLowerCase();
+	if (field === "duration") {
+		const scale = DURATION_UNITS[unit || "m"];
+		return scale === undefined ? null : number * scale;
+	}
+	if (unit === "") return number;
+	if (unit === "k") return number * 1000;
+	if (unit === "m") return number * 1_000_000;
+	return null;
+}
+
+const DATE_FIELDS = new Set<string>(["before", "after", "created", "updated"]);
+
+const FIELD_PATTERN = /^([a-z]+)(>=|<=|:|>|<|=)(.*)$/i;
+
+class QuerySyntaxError extends Error {
+	constructor(
+		message: string,
+		readonly position: number,
+	) {
+		super(message);
+		this.name = "QuerySyntaxError";
+	}
+}
+
+type Token = {
+	text: string;
+	position: number;
+	negate: boolean;
+	/** A whole `"quoted phrase"`, never a field. */
+	phrase: boolean;
+};
+
+function readQuoted(input: string, start: number) {
+	const end = input.indexOf('"', start + 1);
+	if (end === -1) throw new QuerySyntaxError("Unclosed quote", start);
+	return { value: input.slice(start + 1, end), end: end + 1 };
+}
+
+function tokenize(input: string) {
+	const tokens: Token[] = [];
+	let index = 0;
+	while (index < input.length) {
+		if (/\s/.test(input[index])) {
+			index += 1;
+			continue;
+		}
+		const position = index;
+		const negate =
+			input[index] === "-" &&
+			index + 1 < input.length &&
+			!/\s/.test(input[index + 1]);
+		if (negate) index += 1;
+
+		if (input[index] === '"') {
+			const { value, end } = readQuoted(input, index);
+			tokens.push({ text: value, position, negate, phrase: true });
+			index = end;
+			continue;
+		}
+
+		let text = "";
+		while (index < input.length && !/\s/.test(input[index])) {
+			// `title:"two words"` keeps the quoted value in one token.
+			if (input[index] === '"') {
+				const { value, end } = readQuoted(input, index);
+				text += value;
+				index = end;
+				continue;
+			}
+			text += input[index];
+			index += 1;
+		}
+		tokens.push({ text, position, negate, phrase: false });
+	}
+	return tokens;
+}
+
+/** Parses `2024`, `2024-03` or `2024-03-05` into a local [start, end) range in seconds. */
+function parsePeriod(value: string) {
+	const match = /^(\d{4})(?:[-/](\d{1,2}))?(?:[-/](\d{1,2}))?$/.exec(value);
+	if (!match) return null;
+	const year = Number(match[1]);
+	const month = match[2] ? Number(match[2]) - 1 : undefined;
+	const day = match[3] ? Number(match[3]) : undefined;
+	if (month !== undefined && (month < 0 || month > 11)) return null;
+	if (day !== undefined && (day < 1 || day > 31)) return null;
+	const start = new Date(year, month ?? 0, day ?? 1);
+	const end =
+		day !== undefined
+			? new Date(year, month ?? 0, day + 1)
+			: month !== undefined
+				? new Date(year, month + 1, 1)
+				: new Date(year + 1, 0, 1);
+	return { start: start.getTime() / 1000, end: end.getTime() / 1000 };
+}
+
+function parseTerm(token: Token): QueryTerm {
+	const { negate, position } = token;
+	const match = token.phrase ? null : FIELD_PATTERN.exec(token.text);
+	if (!match) {
+		return { kind: "text", value: token.text.toLowerCase(), negate };
+	}
+
+	const name = match[1].toLowerCase();
+	let operator = match[2];
+	let value = match[3];
+
+	const numberField = NUMBER_FIELDS[name];
+	if (numberField) {
+		// Accept both `messages>50` and `messages:>50`.
+		if (operator === ":") {
+			const inner = /^(>=|<=|>|<|=)?(.*)$/.exec(value);
+			operator = inner?.[1] ?? "=";
+			value = inner?.[2] ?? "";
+		}
+		const number = parseAmount(numberField, value);
+		if (number === null) {
+			throw new QuerySyntaxError(
+				numberField === "duration"
+					? `Expected a duration such as 30m or 2h after ${match[1]}${operator}`
+					: `Expected a number after ${match[1]}${operator}`,
+				position,
+			);
+		}
+		return {
+			kind: "number",
+			field: numberField,
+			op: operator as Comparison,
+			value: number,
+			negate,
+		};
+	}
+
+	if (operator !== ":") {
+		// Comparisons only make sense on counts; treat anything else as text.
+		return { kind: "text", value: token.text.toLowerCase(), negate };
+	}
+
+	const textField = TEXT_FIELDS[name];
+	if (textField) {
+		if (!value) {
+			throw new QuerySyntaxError(`Missing value after ${match[1]}:`, position);
+		}
+		return {
+			kind: "field",
+			field: textField,
+			value: value.toLowerCase(),
+			negate,
+		};
+	}
+
+	const flagField = FLAG_FIELDS[name];
+	if (flagField) {
+		const flag = value.toLowerCase();
+		if (!["yes", "no", "true", "false"].includes(flag)) {
+			throw new QuerySyntaxError(`${match[1]}: expects yes or no`, position);
+		}
+		return {
+			kind: "flag",
+			field: flagField,
+			value: flag === "yes" || flag === "true",
+			negate,
+		};
+	}
+
+	if (DATE_FIELDS.has(name)) {
+		const period = parsePeriod(value);
+		if (!period) {
+			throw new QuerySyntaxError(
+				`${match[1]}: expects YYYY, YYYY-MM or YYYY-MM-DD`,
+				position,
+			);
+		}
+		return { kind: "date", field: name as DateField, ...period, negate };
+	}
+
+	// Leave URLs such as https://… to the plain text search.
+	if (value.startsWith("//")) {
+		return { kind: "text", value: token.text.toLowerCase(), negate };
+	}
+	throw new QuerySyntaxError(`Unknown field "${match[1]}:"`, position);
+}
+
+export function parseQuery(input: string): ParsedQuery {
+	try {
+		const groups: QueryTerm[][] = [[]];
+		for (const token of tokenize(input)) {
+			if (token.text === "OR" && !token.phrase && !token.negate) {
+				groups.push([]);
+				continue;
+			}
+			groups[groups.length - 1].push(parseTerm(token));
+		}
+		if (groups.length > 1 && groups.some((group) => group.length === 0)) {
+			throw new QuerySyntaxError(
+				"OR needs a term on both sides",
+				input.lastIndexOf("OR"),
+			);
+		}
+		return { groups: groups.filter((group) => group.length > 0), error: null };
+	} catch (err) {
+		if (!(err instanceof QuerySyntaxError)) throw err;
+		// Fall back to a plain substring search while the query is incomplete.
+		const text = input.trim().toLowerCase();
+		return {
+			groups: text ? [[{ kind: "text", value: text, negate: false }]] : [],
+			error: { message: err.message, position: err.position },
+		};
+	}
+}
+
+let lastInput: string | null = null;
+let lastQuery: ParsedQuery = { groups: [], error: null };
+
+/** The filter runs once per row, so the parse of the latest string is reused. */
+export function getParsedQuery(input: string) {
+	if (input !== lastInput) {
+		lastInput = input;
+		lastQuery = parseQuery(input);
+	}
+	return lastQuery;
+}
+
+// TanStack calls the global filter once per column, so each row's text is kept.
+const haystacks = new WeakMap<ConversationRow, string>();
+
+function getHaystack(row: ConversationRow) {
+	const cached = haystacks.get(row);
+	if (cached !== undefined) return cached;
+	const haystack = [
+		row.title,
+		row.id,
+		row.conversationId,
+		row.currentNode,
+		row.isArchived ? "yes" : "no",
+		row.provider,
+		row.model,
+		...row.models,
+		row.gizmoId,
+		row.gizmoType,
+		row.templateId,
+		row.messageCount,
+		row.userCount,
+		row.assistantCount,
+		row.createTime,
+		row.updateTime,
+		...row.sources,
+		...row.tags,
+		row.note,
+	]
+		.map((entry) => (entry === undefined ? "" : String(entry)))
+		.join(" ")
+		.toLowerCase();
+	haystacks.set(row, haystack);
+	return haystack;
+}
+
+function includes(value: string | undefined, search: string) {
+	return value?.toLowerCase().includes(search) ?? false;
+}
+
+function compare(actual: number, op: Comparison, expected: number) {
+	switch (op) {
+		case ">":
+			return actual > expected;
+		case ">=":
+			return actual >= expected;
+		case "<":
+			return actual < expected;
+		case "<=":
+			return actual <= expected;
+		case "=":
+			return actual === expected;
+	}
+}
+
+function matchesTerm(row: ConversationRow, term: QueryTerm) {
+	switch (term.kind) {
+		case "text":
+			return getHaystack(row).includes(term.value);
+		case "field":
+			switch (term.field) {
+				case "title":
+					return includes(row.title, term.value);
+				case "model":
+					return [row.model, ...row.models].some((model) =>
+						includes(model, term.value),
+					);
+				case "provider":
+					return includes(row.provider, term.value);
+				case "source":
+					return row.sources.some((source) => includes(source, term.value));
+				case "gpt":
+					return includes(row.gizmoId, term.value);
+				case "template":
+					return includes(row.templateId, term.value);
+				case "tag":
+					return row.tags.some((tag) => includes(tag, term.value));
+				case "id":
+					return (
+						includes(row.id, term.value) ||
+						includes(row.conversationId, term.value)
+					);
+			}
+			return false;
+		case "number":
+			return compare(row[term.field], term.op, term.value);
+		case "flag":
+			return row[term.field] === term.value;
+		case "date": {
+			const time =
+				term.field === "created"
+					? row.createTime
+					: term.field === "updated"
+						? row.updateTime
+						: (row.updateTime ?? row.createTime);
+			if (time === undefined) return false;
+			if (term.field === "before") return time < term.start;
+			if (term.field === "after") return time >= term.start;
+			return time >= term.start && time < term.end;
+		}
+	}
+}
+
+export function matchesQuery(row: ConversationRow, query: ParsedQuery) {
+	if (query.groups.length === 0) return true;
+	return query.groups.some((group) =>
+		group.every((term) => matchesTerm(row, term) !== term.negate),
+	);
+}
+
+export type QuerySuggestion = {
+	label: string;
+	hint: string;
+	/** Replaces the last word of the input. */
+	value: string;
+};
+
+const MAX_SUGGESTIONS = 8;
+
+function quoteValue(value: string) {
+	return /\s/.test(value) ? `"${value}"` : value;
+}
+
+/** Completes the word being typed at the end of the input. */
+export function getQuerySuggestions(
+	input: string,
+	rows: ConversationRow[],
+): QuerySuggestion[] {
+	const wordStart =
+		Math.max(input.lastIndexOf(" "), input.lastIndexOf("\t")) + 1;
+	const word = input.slice(wordStart);
+	if (!word || word.includes('"')) return [];
+	const prefix = input.slice(0, wordStart) + (word.startsWith("-") ? "-" : "");
+	const bare = word.replace(/^-/, "");
+
+	const colon = bare.indexOf(":");
+	if (colon === -1) {
+		if (/[<>=]/.test(bare)) return [];
+		const search = bare.toLowerCase();
+		return queryFields
+			.filter((field) => field.name.startsWith(search) && field.name !== search)
+			.slice(0, MAX_SUGGESTIONS)
+			.map((field) => ({
+				label: `${field.name}${field.operator}`,
+				hint: field.hint,
+				value: `${prefix}${field.name}${field.operator}`,
+			}));
+	}
+
+	const name = bare.slice(0, colon).toLowerCase();
+	const search = bare.slice(colon + 1).toLowerCase();
+	let values: string[] = [];
+	if (FLAG_FIELDS[name]) {
+		values = ["yes", "no"];
+	} else if (TEXT_FIELDS[name] === "model") {
+		values = rows.flatMap((row) => [row.model ?? "", ...row.models]);
+	} else if (TEXT_FIELDS[name] === "provider") {
+		values = rows.map((row) => row.provider);
+	} else if (TEXT_FIELDS[name] === "source") {
+		values = rows.flatMap((row) => row.sources);
+	} else if (TEXT_FIELDS[name] === "tag") {
+		values = rows.flatMap((row) => row.tags);
+	} else if (TEXT_FIELDS[name] === "gpt") {
+		values = rows.map((row) => row.gizmoId ?? "");
+	} else if (TEXT_FIELDS[name] === "template") {
+		values = rows.map((row) => row.templateId ?? "");
+	} else if (DATE_FIELDS.has(name)) {
+		values = rows.map((row) => {
+			const time = row.updateTime ?? row.createTime;
+			return time ? String(new Date(time * 1000).getFullYear()) : "";
+		});
+	}
+
+	const counts = new Map<string, number>();
+	for (const value of values) {
+		if (value?.toLowerCase().startsWith(search)) {
+			counts.set(value, (counts.get(value) ?? 0) + 1);
+		}
+	}
+	return [...counts]
+		.sort((a, b) => b[1] - a[1])
+		.slice(0, MAX_SUGGESTIONS)
+		.map(([value, count]) => ({
+			label: `${name}:${value}`,
+			hint: `${count}`,
+			value: `${prefix}${name}:${quoteValue(value)} `,
+		}));
+}
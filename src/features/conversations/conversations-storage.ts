@@ -0,0 +1,216 @@
+import { openDatabase, requestResult, transactionDone } from "../../lib/idb";
+import type {
+	ColumnLayout,
+	Conversation,
+	ExportSource,
+	Library,
+	SavedLibrary,
+} from "./conversations-types";
+import { getConversationKey } from "./conversations-utils";
+
+const DB_NAME = "chatgpt-convo-viewer";
+const DB_VERSION = 1;
+const CHUNK_SIZE = 500;
+const ACTIVE_LIBRARY_KEY = "convo-viewer.active-library";
+const COLUMN_LAYOUT_KEY = "convo-viewer.columns";
+
+type StoredChunk = {
+	libraryId: string;
+	index: number;
+	conversations: Conversation[];
+	sourceIds: string[][];
+};
+
+type StoredSources = {
+	libraryId: string;
+	sources: ExportSource[];
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * What each library's chunks held when last written, so a save only rewrites
+ * chunks whose conversations changed. The library never mutates a conversation
+ * in place, so identity is enough.
+ */
+const writtenChunks = new Map<string, StoredChunk[]>();
+
+function isSameChunk(a: StoredChunk | undefined, b: StoredChunk) {
+	return (
+		a !== undefined &&
+		a.conversations.length === b.conversations.length &&
+		a.conversations.every((item, index) => item === b.conversations[index]) &&
+		a.sourceIds.every((item, index) => item === b.sourceIds[index])
+	);
+}
+
+function getDatabase() {
+	databasePromise ??= openDatabase(DB_NAME, DB_VERSION, (database) => {
+		database.createObjectStore("libraries", { keyPath: "id" });
+		database.createObjectStore("sources", { keyPath: "libraryId" });
+		const chunks = database.createObjectStore("chunks", {
+			keyPath: ["libraryId", "index"],
+		});
+		chunks.createIndex("libraryId", "libraryId");
+	});
+	return databasePromise;
+}
+
+function chunkRange(libraryId: string) {
+	return IDBKeyRange.bound(
+		[libraryId, 0],
+		[libraryId, Number.MAX_SAFE_INTEGER],
+	);
+}
+
+export async function listLibraries() {
+	const database = await getDatabase();
+	const transaction = database.transaction("libraries", "readonly");
+	const libraries = await requestResult<SavedLibrary[]>(
+		transaction.objectStore("libraries").getAll(),
+	);
+	return libraries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveLibrary(
+	saved: SavedLibrary,
+	library: Library,
+	sources: ExportSource[],
+) {
+	const database = await getDatabase();
+	const transaction = database.transaction(
+		["libraries", "sources", "chunks"],
+		"readwrite",
+	);
+	const chunks = transaction.objectStore("chunks");
+	const previous = writtenChunks.get(saved.id) ?? [];
+	const next: StoredChunk[] = [];
+	for (
+		let start = 0, index = 0;
+		start < library.conversations.length;
+		start += CHUNK_SIZE, index += 1
+	) {
+		const chunk: StoredChunk = {
+			libraryId: saved.id,
+			index,
+			conversations: library.conversations.slice(start, start + CHUNK_SIZE),
+			sourceIds: library.sourceIds.slice(start, start + CHUNK_SIZE),
+		};
+		next.push(chunk);
+		if (!isSameChunk(previous[index], chunk)) chunks.put(chunk);
+	}
+	if (previous.length > next.length) {
+		chunks.delete(
+			IDBKeyRange.bound(
+				[saved.id, next.length],
+				[saved.id, Number.MAX_SAFE_INTEGER],
+			),
+		);
+	}
+	// Export zips can run to hundreds of MB, so they aren't kept: a restored
+	// library shows images and attachments only once the zip is added again.
+	const storedSources: StoredSources = {
+		libraryId: saved.id,
+		sources: sources.map((source) => ({ ...source, archive: null })),
+	};
+	transaction.objectStore("sources").put(storedSources);
+	transaction.objectStore("libraries").put(saved);
+	await transactionDone(transaction);
+	writtenChunks.set(saved.id, next);
+}
+
+export async function loadLibrary(id: string) {
+	const database = await getDatabase();
+	const transaction = database.transaction(
+		["libraries", "sources", "chunks"],
+		"readonly",
+	);
+	const [saved, stored, chunks] = await Promise.all([
+		requestResult<SavedLibrary | undefined>(
+			transaction.objectStore("libraries").get(id),
+		),
+		requestResult<StoredSources | undefined>(
+			transaction.objectStore("sources").get(id),
+		),
+		requestResult<StoredChunk[]>(
+			transaction.objectStore("chunks").getAll(chunkRange(id)),
+		),
+	]);
+	if (!saved) return null;
+
+	const conversations: Conversation[] = [];
+	const sourceIds: string[][] = [];
+	const sorted = chunks.sort((a, b) => a.index - b.index);
+	for (const chunk of sorted) {
+		conversations.push(...chunk.conversations);
+		sourceIds.push(...chunk.sourceIds);
+	}
+	writtenChunks.set(id, sorted);
+	const indexByKey = new Map<string, number>();
+	conversations.forEach((conversation, index) => {
+		const key = getConversationKey(conversation);
+		if (key !== undefined) indexByKey.set(key, index);
+	});
+
+	const library: Library = { conversations, sourceIds, indexByKey };
+	return { saved, library, sources: stored?.sources ?? [] };
+}
+
+export async function renameLibrary(id: string, name: string) {
+	const database = await getDatabase();
+	const transaction = database.transaction("libraries", "readwrite");
+	const store = transaction.objectStore("libraries");
+	const saved = await requestResult<SavedLibrary | undefined>(store.get(id));
+	if (saved) store.put({ ...saved, name });
+	await transactionDone(transaction);
+}
+
+export async function deleteLibrary(id: string) {
+	const database = await getDatabase();
+	const transaction = database.transaction(
+		["libraries", "sources", "chunks"],
+		"readwrite",
+	);
+	transaction.objectStore("libraries").delete(id);
+	transaction.objectStore("sources").delete(id);
+	transaction.objectStore("chunks").delete(chunkRange(id));
+	await transactionDone(transaction);
+	writtenChunks.delete(id);
+}
+
+export function getActiveLibraryId() {
+	try {
+		return localStorage.getItem(ACTIVE_LIBRARY_KEY);
+	} catch {
+		return null;
+	}
+}
+
+export function setActiveLibraryId(id: string | null) {
+	try {
+		if (id) {
+			localStorage.setItem(ACTIVE_LIBRARY_KEY, id);
+		} else {
+			localStorage.removeItem(ACTIVE_LIBRARY_KEY);
+		}
+	} catch (err) {
+		console.warn("[storage] unable to remember the active library", err);
+	}
+}
+
+export function loadColumnLayout(): Partial<ColumnLayout> | null {
+	try {
+		const raw = localStorage.getItem(COLUMN_LAYOUT_KEY);
+		return raw ? (JSON.parse(raw) as Partial<ColumnLayout>) : null;
+	} catch {
+		return null;
+	}
+}
+
+export function saveColumnLayout(layout: ColumnLayout) {
+	try {
+		localStorage.setItem(COLUMN_LAYOUT_KEY, JSON.stringify(layout));
+	} catch (err) {
+		console.warn("[storage] unable to save the column layout", err);
+	}
+}
@@ -1,44 +1,260 @@
 import {
 	flexRender,
 	getCoreRowModel,
+	getExpandedRowModel,
 	getFilteredRowModel,
+	getGroupedRowModel,
 	getSortedRowModel,
 	useReactTable,
 } from "@tanstack/react-table";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import {
+	type KeyboardEvent,
+	type MouseEvent,
+	useLayoutEffect,
+	useRef,
+} from "react";
+import { numberFormat } from "../../lib/format";
+import { Dockview } from "../dockview";
+import { Shortcuts } from "../shortcuts";
+import { formatGroupValue } from "./conversations-columns";
 import { useConversations } from "./conversations-context";
 
+const ROW_HEIGHT = 25;
+const HEADER_HEIGHT = 24;
+
 export function ConversationsTable() {
 	const {
-		state: { rows, sorting, globalFilter, selectedIndex },
+		state: {
+			rows,
+			sorting,
+			columnFilters,
+			columnVisibility,
+			columnOrder,
+			columnSizing,
+			grouping,
+			expanded,
+			globalFilter,
+			selectedIndex,
+			rowSelection,
+		},
 		actions: {
 			setSorting,
+			setColumnFilters,
+			setColumnVisibility,
+			setColumnOrder,
+			setColumnSizing,
+			setGrouping,
+			setExpanded,
 			setGlobalFilter,
 			setIsDragging,
 			onDrop,
 			onSelectRow,
+			setRowSelection,
 		},
 		meta,
 	} = useConversations();
+	const {
+		actions: { focusChat },
+	} = Dockview.useDockview();
 
 	const table = useReactTable({
 		data: rows,
 		columns: meta.columns,
 		state: {
 			sorting,
+			columnFilters,
+			columnVisibility,
+			columnOrder,
+			columnSizing,
+			grouping,
+			expanded,
 			globalFilter,
+			rowSelection,
 		},
+		getRowId: (row) => String(row.sourceIndex),
+		enableRowSelection: (row) => !row.getIsGrouped(),
+		// Grouped columns stay where the user put them; groups get their own row.
+		groupedColumnMode: false,
+		defaultColumn: { size: 110, minSize: 50, maxSize: 800 },
+		columnResizeMode: "onChange",
 		onSortingChange: setSorting,
+		onColumnFiltersChange: setColumnFilters,
+		onColumnVisibilityChange: setColumnVisibility,
+		onColumnOrderChange: setColumnOrder,
+		onColumnSizingChange: setColumnSizing,
+		onGroupingChange: setGrouping,
+		onExpandedChange: setExpanded,
 		onGlobalFilterChange: setGlobalFilter,
+		onRowSelectionChange: setRowSelection,
 		globalFilterFn: meta.globalFilterFn,
 		getCoreRowModel: getCoreRowModel(),
 		getFilteredRowModel: getFilteredRowModel(),
 		getSortedRowModel: getSortedRowModel(),
+		getGroupedRowModel: getGroupedRowModel(),
+		getExpandedRowModel: getExpandedRowModel(),
+	});
+
+	const scrollRef = useRef<HTMLDivElement | null>(null);
+	// Source index of the first row on screen, used to keep the user's place.
+	const anchorRef = useRef<number | null>(null);
+	// Source index of the last clicked row, where shift-click ranges start.
+	const rangeStartRef = useRef<number | null>(null);
+	const tableRows = table.getRowModel().rows;
+	// Visible columns plus the checkbox column.
+	const columnCount = table.getVisibleLeafColumns().length + 1;
+
+	const virtualizer = useVirtualizer({
+		count: tableRows.length,
+		getScrollElement: () => scrollRef.current,
+		estimateSize: () => ROW_HEIGHT,
+		scrollPaddingStart: HEADER_HEIGHT,
+		overscan: 12,
+		getItemKey: (index) => tableRows[index]?.id ?? index,
+		onChange: (instance) => {
+			if (!instance.isScrolling) return;
+			const first = instance.range?.startIndex;
+			anchorRef.current =
+				first === undefined ? null : (getSourceIndex(first) ?? null);
+		},
+	});
+	const virtualRows = virtualizer.getVirtualItems();
+	const paddingTop = virtualRows[0]?.start ?? 0;
+	const paddingBottom =
+		virtualRows.length > 0
+			? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end
+			: 0;
+
+	// Group rows carry their first leaf as `original`, so they never count as
+	// that conversation.
+	function getSourceIndex(position: number) {
+		const row = tableRows[position];
+		return row && !row.getIsGrouped() ? row.original.sourceIndex : undefined;
+	}
+
+	const findPosition = (sourceIndex: number | null) =>
+		sourceIndex === null
+			? -1
+			: tableRows.findIndex(
+					(row) =>
+						!row.getIsGrouped() && row.original.sourceIndex === sourceIndex,
+				);
+
+	/** Steps from `position` in `direction` until it lands on a conversation. */
+	const findLeaf = (position: number, direction: 1 | -1) => {
+		for (
+			let index = position;
+			index >= 0 && index < tableRows.length;
+			index += direction
+		) {
+			if (!tableRows[index].getIsGrouped()) return index;
+		}
+		return -1;
+	};
+
+	// Re-sorting and filtering reorder rows under a fixed scroll offset; follow
+	// the selected row, or else the row that was at the top. Rows arriving from
+	// an import leave the view alone, so compare against the last view.
+	const viewRef = useRef<unknown[]>([]);
+	useLayoutEffect(() => {
+		const view = [
+			selectedIndex,
+			sorting,
+			globalFilter,
+			columnFilters,
+			grouping,
+		];
+		const changed = view.some(
+			(value, index) => value !== viewRef.current[index],
+		);
+		viewRef.current = view;
+		if (!changed) return;
+		const selected = findPosition(selectedIndex);
+		if (selected >= 0) {
+			virtualizer.scrollToIndex(selected, { align: "auto" });
+			return;
+		}
+		const anchor = findPosition(anchorRef.current);
+		if (anchor >= 0) virtualizer.scrollToIndex(anchor, { align: "start" });
+	});
+
+	const handleRowClick = (event: MouseEvent, position: number) => {
+		const row = tableRows[position];
+		if (event.shiftKey) {
+			const start = findPosition(rangeStartRef.current ?? selectedIndex);
+			const from = start < 0 ? position : Math.min(start, position);
+			const to = start < 0 ? position : Math.max(start, position);
+			const range = Object.fromEntries(
+				tableRows
+					.slice(from, to + 1)
+					.filter((item) => !item.getIsGrouped())
+					.map((item) => [item.id, true]),
+			);
+			setRowSelection((old) =>
+				event.ctrlKey || event.metaKey ? { ...old, ...range } : range,
+			);
+		} else if (event.ctrlKey || event.metaKey) {
+			row.toggleSelected();
+			rangeStartRef.current = row.original.sourceIndex;
+			return;
+		} else {
+			rangeStartRef.current = row.original.sourceIndex;
+		}
+		onSelectRow(row.original.sourceIndex);
+	};
+
+	/** Moves the selection for a navigation key; false if the key isn't one. */
+	const moveSelection = (key: string) => {
+		if (tableRows.length === 0) return false;
+		const current = findPosition(selectedIndex);
+		const page = Math.max(
+			1,
+			Math.floor((scrollRef.current?.clientHeight ?? 0) / ROW_HEIGHT) - 1,
+		);
+		const moves: Record<string, [number, 1 | -1]> = {
+			ArrowDown: [current + 1, 1],
+			ArrowUp: [current < 0 ? 0 : current - 1, -1],
+			PageDown: [current + page, 1],
+			PageUp: [current - page, -1],
+			Home: [0, 1],
+			End: [tableRows.length - 1, -1],
+		};
+		const move = moves[key];
+		if (move === undefined) return false;
+		const [next, direction] = move;
+		const clamped = Math.min(Math.max(next, 0), tableRows.length - 1);
+		// Skip over group rows, turning back at either end of the table.
+		const position =
+			findLeaf(clamped, direction) >= 0
+				? findLeaf(clamped, direction)
+				: findLeaf(clamped, direction === 1 ? -1 : 1);
+		const sourceIndex = getSourceIndex(position);
+		if (sourceIndex !== undefined) onSelectRow(sourceIndex);
+		return true;
+	};
+
+	Shortcuts.useShortcutHandlers({
+		nextConversation: () => moveSelection("ArrowDown"),
+		prevConversation: () => moveSelection("ArrowUp"),
+		openConversation: () => {
+			if (selectedIndex !== null) focusChat();
+		},
 	});
 
+	const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+		const current = findPosition(selectedIndex);
+		if (event.key === " " && current >= 0) {
+			event.preventDefault();
+			tableRows[current].toggleSelected();
+			return;
+		}
+		if (moveSelection(event.key)) event.preventDefault();
+	};
+
 	return (
 		// biome-ignore lint/a11y/noStaticElementInteractions: Drag and drop zone
 		<div
-			className="flex-1 border border-slate-800 bg-slate-950/50 overflow-hidden"
+			className="flex-1 min-w-0 border border-slate-800 bg-slate-950/50 overflow-hidden"
 			onDragEnter={(event) => {
 				event.preventDefault();
 				setIsDragging(true);
@@ -54,20 +270,45 @@ export function ConversationsTable() {
 			}}
 			onDrop={onDrop}
 		>
-			<div className="overflow-auto h-full">
-				<table className="w-full text-[11px]">
-					<thead className="bg-slate-900/80 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+			<div
+				ref={scrollRef}
+				role="application"
+				aria-label="Conversations"
+				className="overflow-auto h-full focus:outline-none"
+				// biome-ignore lint/a11y/noNoninteractiveTabindex: arrow keys move the selection
+				tabIndex={0}
+				onKeyDown={handleKeyDown}
+			>
+				<table
+					className="table-fixed text-[11px]"
+					style={{ width: table.getTotalSize(), minWidth: "100%" }}
+				>
+					<thead className="sticky top-0 z-10 bg-slate-900 text-[10px] uppercase tracking-[0.2em] text-slate-500">
 						{table.getHeaderGroups().map((headerGroup) => (
 							<tr key={headerGroup.id}>
+								<th className="w-7 px-2 py-1">
+									<input
+										type="checkbox"
+										aria-label="Select all conversations"
+										checked={table.getIsAllRowsSelected()}
+										ref={(element) => {
+											if (element) {
+												element.indeterminate = table.getIsSomeRowsSelected();
+											}
+										}}
+										onChange={table.getToggleAllRowsSelectedHandler()}
+									/>
+								</th>
 								{headerGroup.headers.map((header) => {
 									const sorted = header.column.getIsSorted();
 									return (
 										<th
 											key={header.id}
-											className="px-2 py-1 text-left font-semibold cursor-pointer select-none"
+											className="relative px-2 py-1 text-left font-semibold cursor-pointer select-none"
+											style={{ width: header.getSize() }}
 											onClick={header.column.getToggleSortingHandler()}
 										>
-											<span className="inline-flex items-center gap-1.5">
+											<span className="flex items-center gap-1.5 overflow-hidden whitespace-nowrap">
 												{header.isPlaceholder
 													? null
 													: flexRender(
@@ -77,6 +318,18 @@ export function ConversationsTable() {
 												{sorted === "asc" ? "↑" : null}
 												{sorted === "desc" ? "↓" : null}
 											</span>
+											<button
+												type="button"
+												aria-label="Resize column"
+												tabIndex={-1}
+												className={`absolute right-0 top-0 h-full w-1 cursor-col-resize touch-none hover:bg-cyan-400/60${
+													header.column.getIsResizing() ? " bg-cyan-400/80" : ""
+												}`}
+												onMouseDown={header.getResizeHandler()}
+												onTouchStart={header.getResizeHandler()}
+												onDoubleClick={() => header.column.resetSize()}
+												onClick={(event) => event.stopPropagation()}
+											/>
 										</th>
 									);
 								})}
@@ -84,31 +337,117 @@ export function ConversationsTable() {
 						))}
 					</thead>
 					<tbody className="divide-y divide-slate-900/80">
-						{table.getRowModel().rows.length > 0 ? (
-							table.getRowModel().rows.map((row) => (
-								<tr
-									key={row.id}
-									className={
-										selectedIndex === row.original.sourceIndex
-											? "bg-slate-900/80"
-											: "hover:bg-slate-900/60 transition cursor-pointer"
+						{tableRows.length > 0 ? (
+							<>
+								{paddingTop > 0 ? (
+									<tr aria-hidden>
+										<td colSpan={columnCount} style={{ height: paddingTop }} />
+									</tr>
+								) : null}
+								{virtualRows.map((virtualRow) => {
+									const row = tableRows[virtualRow.index];
+									if (row.getIsGrouped()) {
+										const columnId = row.groupingColumnId ?? "";
+										return (
+											<tr
+												key={row.id}
+												ref={virtualizer.measureElement}
+												data-index={virtualRow.index}
+												className="bg-slate-900/50 hover:bg-slate-900/80 cursor-pointer"
+												onClick={row.getToggleExpandedHandler()}
+											>
+												<td
+													colSpan={columnCount}
+													className="truncate py-1 text-slate-300"
+													style={{ paddingLeft: 8 + row.depth * 16 }}
+												>
+													<span className="inline-block w-4 text-cyan-300">
+														{row.getIsExpanded() ? "▾" : "▸"}
+													</span>
+													<span className="font-semibold">
+														{formatGroupValue(
+															columnId,
+															row.getGroupingValue(columnId),
+														)}
+													</span>
+													<span className="ml-2 text-slate-500">
+														{numberFormat.format(
+															row
+																.getLeafRows()
+																.filter((leaf) => !leaf.getIsGrouped()).length,
+														)}{" "}
+														conversations ·{" "}
+														{numberFormat.format(
+															row.getValue<number>("messageCount"),
+														)}{" "}
+														messages
+													</span>
+												</td>
+											</tr>
+										);
 									}
-									onClick={() => onSelectRow(row.original.sourceIndex)}
-								>
-									{row.getVisibleCells().map((cell) => (
-										<td key={cell.id} className="px-2 py-1 text-slate-200">
-											{flexRender(
-												cell.column.columnDef.cell,
-												cell.getContext(),
-											)}
-										</td>
-									))}
-								</tr>
-							))
+									return (
+										<tr
+											key={row.id}
+											ref={virtualizer.measureElement}
+											data-index={virtualRow.index}
+											aria-selected={selectedIndex === row.original.sourceIndex}
+											className={
+												selectedIndex === row.original.sourceIndex
+													? "bg-slate-900/80"
+													: row.getIsSelected()
+														? "bg-cyan-950/40 hover:bg-slate-900/60 cursor-pointer"
+														: "hover:bg-slate-900/60 transition cursor-pointer"
+											}
+											onMouseDown={(event) => {
+												// Keep shift-click from selecting text.
+												if (event.shiftKey) event.preventDefault();
+											}}
+											onClick={(event) =>
+												handleRowClick(event, virtualRow.index)
+											}
+										>
+											<td className="px-2 py-1">
+												<input
+													type="checkbox"
+													aria-label="Select conversation"
+													checked={row.getIsSelected()}
+													onClick={(event) => event.stopPropagation()}
+													onChange={row.getToggleSelectedHandler()}
+												/>
+											</td>
+											{row.getVisibleCells().map((cell) => (
+												<td
+													key={cell.id}
+													className="truncate px-2 py-1 text-slate-200"
+													title={
+														typeof cell.getValue() === "string"
+															? cell.getValue<string>()
+															: undefined
+													}
+												>
+													{flexRender(
+														cell.column.columnDef.cell,
+														cell.getContext(),
+													)}
+												</td>
+											))}
+										</tr>
+									);
+								})}
+								{paddingBottom > 0 ? (
+									<tr aria-hidden>
+										<td
+											colSpan={columnCount}
+											style={{ height: paddingBottom }}
+										/>
+									</tr>
+								) : null}
+							</>
 						) : (
 							<tr>
 								<td
-									colSpan={meta.columns.length}
+									colSpan={columnCount}
 									className="px-3 py-6 text-center text-slate-500 text-[11px]"
 								>
 									{rows.length === 0
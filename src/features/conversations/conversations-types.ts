@@ -1,3 +1,10 @@
+import type {
+	ColumnOrderState,
+	ColumnSizingState,
+	VisibilityState,
+} from "@tanstack/react-table";
+import type { ZipEntry } from "../../lib/zip";
+
 export type Conversation = {
 	title?: string;
 	create_time?: number;
@@ -7,27 +14,131 @@ export type Conversation = {
 	is_archived?: boolean;
 	conversation_id?: string;
 	id?: string;
+	default_model_slug?: string | null;
+	/** Custom GPT (`gizmo_type` "gpt") or project (`"snorlax"`) the chat belongs to. */
+	gizmo_id?: string | null;
+	gizmo_type?: string | null;
+	conversation_template_id?: string | null;
+	/** Set by non-ChatGPT importers, e.g. "claude" or "gemini". */
+	provider?: string;
 };
 
 export type MappingNode = {
 	id?: string;
+	parent?: string | null;
+	children?: string[];
 	message?: {
 		author?: {
 			role?: string;
 		};
 		create_time?: number;
-		content?: {
-			content_type?: string;
-			parts?: unknown[];
-		};
+		content?: MessageContent;
+		metadata?: MessageMetadata;
 	};
 };
 
+export type MessageMetadata = {
+	attachments?: MessageAttachment[];
+	model_slug?: string;
+	default_model_slug?: string;
+};
+
+/** A file uploaded with a message; `id` prefixes its name inside the export zip. */
+export type MessageAttachment = {
+	id?: string;
+	name?: string;
+	size?: number;
+	mime_type?: string;
+	width?: number;
+	height?: number;
+};
+
+export type MessageContent = {
+	content_type?: string;
+	parts?: unknown[];
+	text?: string;
+	language?: string;
+	result?: string;
+	summary?: string;
+	title?: string;
+	url?: string;
+	content?: string;
+	thoughts?: Array<{ summary?: string; content?: string }>;
+	user_profile?: string;
+	user_instructions?: string;
+};
+
+export type ImageAssetPointer = {
+	content_type: "image_asset_pointer";
+	asset_pointer?: string;
+	width?: number;
+	height?: number;
+	size_bytes?: number;
+};
+
 export type DisplayMessage = {
 	id: string;
 	authorRole: string | undefined;
 	createTime: number | undefined;
+	contentType: string;
+	content: MessageContent | undefined;
 	text: string;
+	attachments: MessageAttachment[];
+	modelSlug?: string;
+	parentId?: string;
+	siblingIds: string[];
+};
+
+/** Chosen child per parent node ID when exploring edit/regeneration branches. */
+export type BranchSelections = Record<string, string>;
+
+export type DroppedRecord = {
+	index: number;
+	reason: string;
+	preview: string;
+};
+
+export type ImportReport = {
+	shape: string;
+	/** Converted records per importer ID. */
+	formats: Record<string, number>;
+	recordCount: number;
+	droppedCount: number;
+	dropped: DroppedRecord[];
+	/** Problems with the file as a whole, e.g. data after the records. */
+	errors: string[];
+};
+
+/** What one export said about a conversation, kept for comparing exports. */
+export type SnapshotEntry = {
+	title: string;
+	updateTime?: number;
+	messageIds: string[];
+};
+
+export type ExportSource = {
+	id: string;
+	name: string;
+	loadedAt: number;
+	conversationCount: number;
+	/**
+	 * The export was a zip. Archives aren't saved, so a restored source keeps
+	 * this but has no `archive`.
+	 */
+	isZip: boolean;
+	archive: ExportArchive | null;
+	snapshot: Map<string, SnapshotEntry>;
+	report: ImportReport | null;
+};
+
+/**
+ * Conversations merged from every loaded export. `sourceIds` is parallel to
+ * `conversations`; `indexByKey` maps a conversation key to its position.
+ */
+export type Library = {
+	conversations: Conversation[];
+	sourceIds: string[][];
+	indexByKey: Map<string, number>;
 };
 
 export type ConversationRow = {
@@ -40,8 +151,36 @@ export type ConversationRow = {
 	assistantCount: number;
 	currentNode?: string;
 	isArchived: boolean;
+	provider: string;
+	/** Default model, falling back to the last model that answered. */
+	model?: string;
+	/** Every model that produced a message. */
+	models: string[];
+	gizmoId?: string;
+	gizmoType?: string;
+	templateId?: string;
 	conversationId?: string;
+	sources: string[];
+	/** From the annotation store, keyed by `getConversationKey`. */
+	tags: string[];
+	starred: boolean;
+	note: string;
 	sourceIndex: number;
+} & ConversationMetrics;
+
+/** Content totals across every message in the mapping, not just one branch. */
+export type ConversationMetrics = {
+	wordCount: number;
+	charCount: number;
+	/** Rough count at four characters per token. */
+	tokenEstimate: number;
+	codeBlockCount: number;
+	imageCount: number;
+	attachmentCount: number;
+	/** Seconds from the first to the last message. */
+	duration: number;
+	/** Mean words per assistant reply. */
+	avgReplyWords: number;
 };
 
 export type Stats = {
@@ -50,3 +189,76 @@ export type Stats = {
 	archived: number;
 	latestUpdate?: number;
 };
+
+export type ExportUser = {
+	id?: string;
+	email?: string;
+	chatgpt_plus_user?: boolean;
+	phone_number?: string | null;
+};
+
+export type MessageFeedback = {
+	id?: string;
+	conversation_id?: string;
+	user_id?: string;
+	rating?: string;
+	content?: string;
+	create_time?: string | number;
+	update_time?: string | number;
+};
+
+export type SharedConversation = {
+	id?: string;
+	conversation_id?: string;
+	title?: string;
+	is_anonymous?: boolean;
+};
+
+export type ExportArchive = {
+	fileName: string;
+	blob: Blob;
+	entries: Map<string, ZipEntry>;
+	user: ExportUser | null;
+	messageFeedback: MessageFeedback[];
+	sharedConversations: SharedConversation[];
+	attachments: ZipEntry[];
+};
+
+export type LoadProgress = {
+	bytesRead: number;
+	totalBytes: number;
+	conversationsParsed: number;
+};
+
+export type WorkerRequest = {
+	type: "parse";
+	file: Blob;
+	entry: ZipEntry | null;
+};
+
+export type WorkerResponse =
+	| ({ type: "progress" } & LoadProgress)
+	| { type: "batch"; conversations: Conversation[] }
+	| { type: "done"; conversationsParsed: number; report: ImportReport }
+	| { type: "error"; message: string };
+
+export type SavedLibrary = {
+	id: string;
+	name: string;
+	createdAt: number;
+	updatedAt: number;
+	conversationCount: number;
+	sourceCount: number;
+};
+
+export type StorageUsage = {
+	usage: number;
+	quota: number;
+};
+
+/** Table column choices, saved in localStorage. */
+export type ColumnLayout = {
+	visibility: VisibilityState;
+	order: ColumnOrderState;
+	sizing: ColumnSizingState;
+};
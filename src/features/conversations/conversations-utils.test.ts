@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+	createImportReport,
+	emptyLibrary,
+	mergeConversations,
+	normalizeConversations,
+} from "./conversations-utils";
+
+describe("mergeConversations", () => {
+	const first = mergeConversations(
+		emptyLibrary,
+		[
+			{ id: "a", title: "A", update_time: 10 },
+			{ conversation_id: "b", id: "ignored", title: "B", update_time: 10 },
+		],
+		"export-1",
+	);
+
+	it("adds new conversations with their source", () => {
+		expect(first.conversations.map((item) => item.title)).toEqual(["A", "B"]);
+		expect(first.sourceIds).toEqual([["export-1"], ["export-1"]]);
+		expect([...first.indexByKey]).toEqual([
+			["a", 0],
+			["b", 1],
+		]);
+	});
+
+	it("dedupes by key, keeps positions and lets the newer copy win", () => {
+		const merged = mergeConversations(
+			first,
+			[
+				{ conversation_id: "b", title: "B newer", update_time: 20 },
+				{ id: "a", title: "A older", update_time: 5 },
+				{ id: "c", title: "C" },
+			],
+			"export-2",
+		);
+		expect(merged.conversations.map((item) => item.title)).toEqual([
+			"A",
+			"B newer",
+			"C",
+		]);
+		expect(merged.sourceIds).toEqual([
+			["export-1", "export-2"],
+			["export-1", "export-2"],
+			["export-2"],
+		]);
+		expect(merged.indexByKey.get("c")).toBe(2);
+	});
+
+	it("doesn't repeat a source or touch the input library", () => {
+		const merged = mergeConversations(first, [{ id: "a" }], "export-1");
+		expect(merged.sourceIds[0]).toEqual(["export-1"]);
+		expect(merged.conversations[0].title).toBe("A");
+		expect(first.indexByKey).not.toBe(merged.indexByKey);
+		expect(emptyLibrary.conversations).toEqual([]);
+	});
+
+	it("keeps conversations without a key apart", () => {
+		const merged = mergeConversations(
+			emptyLibrary,
+			[{ title: "x" }, { title: "x" }],
+			"export-1",
+		);
+		expect(merged.conversations).toHaveLength(2);
+		expect(merged.indexByKey.size).toBe(0);
+	});
+});
+
+describe("normalizeConversations", () => {
+	it("reads arrays and counts formats and dropped records", () => {
+		const report = createImportReport();
+		const conversations = normalizeConversations(
+			[
+				{ id: "a", title: "ChatGPT", mapping: {} },
+				{ uuid: "c", name: "Claude", chat_messages: [] },
+				"text",
+				{ foo: 1 },
+				{ header: "Gemini Apps", time: "2024-01-01", title: "Visited a page" },
+			],
+			report,
+		);
+		expect(conversations.map((item) => item.title)).toEqual([
+			"ChatGPT",
+			"Claude",
+		]);
+		expect(report).toMatchObject({
+			shape: "array",
+			formats: { chatgpt: 1, claude: 1 },
+			recordCount: 5,
+			droppedCount: 3,
+		});
+		expect(report.dropped.map(({ index, reason }) => [index, reason])).toEqual([
+			[2, "Not an object"],
+			[3, "No mapping, title or ID"],
+			[4, "Unsupported Gemini (Takeout activity) record"],
+		]);
+		expect(report.dropped[0].preview).toBe('"text"');
+	});
+
+	it("finds records under a known key or in object values", () => {
+		const wrapped = createImportReport();
+		expect(
+			normalizeConversations({ items: [{ id: "a" }] }, wrapped),
+		).toHaveLength(1);
+		expect(wrapped.shape).toBe("object.items");
+
+		const keyed = createImportReport();
+		expect(
+			normalizeConversations({ a: { id: "a" }, count: 1 }, keyed),
+		).toHaveLength(1);
+		expect(keyed).toMatchObject({ shape: "object.values", recordCount: 1 });
+	});
+});
@@ -1,56 +1,431 @@
-import type { Conversation, DisplayMessage } from "./conversations-types";
+import { detectImporter } from "./conversations-importers";
+import type {
+	BranchSelections,
+	Conversation,
+	ConversationMetrics,
+	DisplayMessage,
+	ImportReport,
+	Library,
+	MappingNode,
+	MessageContent,
+	SnapshotEntry,
+} from "./conversations-types";
 
-export function extractMessages(conversation: Conversation): DisplayMessage[] {
-	const mappingNodes = Object.values(conversation.mapping ?? {});
-	const messages = mappingNodes
-		.map((node) => {
-			const message = node?.message;
-			if (!message) return null;
-			const parts = Array.isArray(message.content?.parts)
-				? (message.content?.parts ?? [])
-				: [];
+function joinText(values: Array<string | undefined>) {
+	return values
+		.filter((value): value is string => Boolean(value?.trim()))
+		.join("\n\n");
+}
+
+function partText(part: unknown) {
+	if (typeof part === "string") return part;
+	// Voice messages carry their transcript next to the audio pointer.
+	if (
+		part &&
+		typeof part === "object" &&
+		"text" in part &&
+		typeof part.text === "string"
+	) {
+		return part.text;
+	}
+	return undefined;
+}
+
+/**
+ * Plain text of a message as shown and searched in the transcript; each
+ * content type keeps its text in a different field.
+ */
+export function getContentText(content: MessageContent | undefined): string {
+	if (!content) return "";
+	switch (content.content_type) {
+		case "code":
+		case "execution_output":
+		case "system_error":
+			return (content.text ?? "").trim();
+		case "tether_browsing_display":
+			return joinText([content.result, content.summary]).trim();
+		case "tether_quote":
+			return joinText([content.title, content.url, content.text]).trim();
+		case "thoughts":
+			return joinText(
+				(content.thoughts ?? []).map((thought) =>
+					joinText([thought.summary, thought.content]),
+				),
+			).trim();
+		case "reasoning_recap":
+			return (content.content ?? "").trim();
+		case "user_editable_context":
+			return joinText([content.user_profile, content.user_instructions]).trim();
+		default: {
+			const parts = Array.isArray(content.parts) ? content.parts : [];
 			const text = parts
-				.map((part) => String(part))
+				.map(partText)
+				.filter((part): part is string => part !== undefined)
 				.join("\n")
 				.trim();
-			return {
-				id: node?.id ?? message?.create_time?.toString() ?? "message",
-				authorRole: message.author?.role,
-				createTime: message.create_time,
-				text,
-			};
-		})
+			return (
+				text || (typeof content.text === "string" ? content.text.trim() : "")
+			);
+		}
+	}
+}
+
+function toDisplayMessage(
+	node: MappingNode,
+	mapping: Record<string, MappingNode> = {},
+): DisplayMessage | null {
+	const message = node?.message;
+	if (!message) return null;
+	return {
+		id: node?.id ?? message?.create_time?.toString() ?? "message",
+		authorRole: message.author?.role,
+		createTime: message.create_time,
+		contentType: message.content?.content_type ?? "text",
+		content: message.content,
+		text: getContentText(message.content),
+		attachments: Array.isArray(message.metadata?.attachments)
+			? message.metadata.attachments
+			: [],
+		modelSlug: message.metadata?.model_slug ?? undefined,
+		parentId: node?.parent ?? undefined,
+		siblingIds: (node?.parent && mapping[node.parent]?.children) || [],
+	};
+}
+
+function findLatestLeaf(mapping: Record<string, MappingNode>) {
+	let latest: string | undefined;
+	let latestTime = Number.NEGATIVE_INFINITY;
+	for (const [id, node] of Object.entries(mapping)) {
+		if (node?.children && node.children.length > 0) continue;
+		const time = node?.message?.create_time ?? 0;
+		if (time >= latestTime) {
+			latest = id;
+			latestTime = time;
+		}
+	}
+	return latest;
+}
+
+/**
+ * Node IDs from the root down to `leafId` (the conversation's `current_node`
+ * by default), i.e. the thread the user actually saw.
+ */
+export function getThreadNodeIds(
+	conversation: Conversation,
+	leafId = conversation.current_node,
+): string[] {
+	const mapping = conversation.mapping ?? {};
+	const start = leafId && mapping[leafId] ? leafId : findLatestLeaf(mapping);
+	const path: string[] = [];
+	const seen = new Set<string>();
+	let id = start;
+	while (id && mapping[id] && !seen.has(id)) {
+		seen.add(id);
+		path.push(id);
+		id = mapping[id]?.parent ?? undefined;
+	}
+	return path.reverse();
+}
+
+/**
+ * Like `getThreadNodeIds`, but honours explicit branch choices: below a chosen
+ * child the thread follows the most recent descendant.
+ */
+export function getBranchThreadIds(
+	conversation: Conversation,
+	selections: BranchSelections,
+): string[] {
+	const defaultPath = getThreadNodeIds(conversation);
+	if (Object.keys(selections).length === 0) return defaultPath;
+
+	const mapping = conversation.mapping ?? {};
+	const onDefaultPath = new Set(defaultPath);
+	const path: string[] = [];
+	const seen = new Set<string>();
+	let id: string | undefined = defaultPath[0];
+	while (id && mapping[id] && !seen.has(id)) {
+		seen.add(id);
+		path.push(id);
+		const children: string[] = mapping[id]?.children ?? [];
+		const chosen: string | undefined = selections[id];
+		let next: string | undefined =
+			chosen && children.includes(chosen)
+				? chosen
+				: children.find((child) => onDefaultPath.has(child));
+		if (!next && !onDefaultPath.has(id)) {
+			next = children[children.length - 1];
+		}
+		id = next;
+	}
+	return path;
+}
+
+export function extractMessages(
+	conversation: Conversation,
+	selections: BranchSelections = {},
+): DisplayMessage[] {
+	const mappingNodes = Object.values(conversation.mapping ?? {});
+	const hasTree = mappingNodes.some(
+		(node) => node?.parent !== undefined || node?.children !== undefined,
+	);
+
+	// Older or hand-edited exports may lack parent links; fall back to time order.
+	if (!hasTree) {
+		return mappingNodes
+			.map((node) => toDisplayMessage(node))
+			.filter((message): message is DisplayMessage => message !== null)
+			.sort((a, b) => (a.createTime ?? 0) - (b.createTime ?? 0));
+	}
+
+	const mapping = conversation.mapping ?? {};
+	return getBranchThreadIds(conversation, selections)
+		.map((id) => toDisplayMessage({ id, ...mapping[id] }, mapping))
 		.filter((message): message is DisplayMessage => message !== null);
+}
 
-	return messages.sort((a, b) => (a.createTime ?? 0) - (b.createTime ?? 0));
+/** Every message in the conversation, whichever branch it's on, in time order. */
+export function extractAllMessages(
+	conversation: Conversation,
+): DisplayMessage[] {
+	const mapping = conversation.mapping ?? {};
+	return Object.entries(mapping)
+		.map(([id, node]) => toDisplayMessage({ id, ...node }, mapping))
+		.filter((message): message is DisplayMessage => message !== null)
+		.sort((a, b) => (a.createTime ?? 0) - (b.createTime ?? 0));
 }
 
-export function normalizeConversations(value: unknown): Conversation[] {
-	if (Array.isArray(value)) return value as Conversation[];
+/** Branch choices that put `nodeId` on the shown thread. */
+export function getBranchSelectionsTo(
+	conversation: Conversation,
+	nodeId: string,
+): BranchSelections {
+	const mapping = conversation.mapping ?? {};
+	const selections: BranchSelections = {};
+	const seen = new Set<string>();
+	let id = nodeId;
+	let parent = mapping[id]?.parent;
+	while (parent && mapping[parent] && !seen.has(parent)) {
+		seen.add(parent);
+		selections[parent] = id;
+		id = parent;
+		parent = mapping[id]?.parent;
+	}
+	return selections;
+}
 
-	if (value && typeof value === "object") {
-		const maybeRecord = value as Record<string, unknown>;
-		if (Array.isArray(maybeRecord.conversations)) {
-			return maybeRecord.conversations as Conversation[];
+const CHARS_PER_TOKEN = 4;
+
+// Rows are rebuilt on every render; a conversation object never changes once
+// loaded, so its metrics are computed once.
+const metricsCache = new WeakMap<Conversation, ConversationMetrics>();
+
+export function getConversationMetrics(
+	conversation: Conversation,
+): ConversationMetrics {
+	const cached = metricsCache.get(conversation);
+	if (cached) return cached;
+
+	let wordCount = 0;
+	let charCount = 0;
+	let codeBlockCount = 0;
+	let imageCount = 0;
+	let attachmentCount = 0;
+	let replyWords = 0;
+	let replyCount = 0;
+	let firstTime = Number.POSITIVE_INFINITY;
+	let lastTime = Number.NEGATIVE_INFINITY;
+
+	for (const node of Object.values(conversation.mapping ?? {})) {
+		const message = node?.message;
+		if (!message) continue;
+		const text = getContentText(message.content);
+		const words = text.match(/\S+/g)?.length ?? 0;
+		wordCount += words;
+		charCount += text.length;
+		if (message.content?.content_type === "code") {
+			codeBlockCount += 1;
+		} else {
+			// An unclosed fence still starts a block.
+			codeBlockCount += Math.ceil((text.match(/^\s*```/gm)?.length ?? 0) / 2);
 		}
-		if (Array.isArray(maybeRecord.items)) {
-			return maybeRecord.items as Conversation[];
+		for (const part of message.content?.parts ?? []) {
+			if (
+				part &&
+				typeof part === "object" &&
+				"content_type" in part &&
+				part.content_type === "image_asset_pointer"
+			) {
+				imageCount += 1;
+			}
 		}
-		if (Array.isArray(maybeRecord.data)) {
-			return maybeRecord.data as Conversation[];
+		const attachments = message.metadata?.attachments;
+		if (Array.isArray(attachments)) attachmentCount += attachments.length;
+		if (message.author?.role === "assistant" && text) {
+			replyWords += words;
+			replyCount += 1;
 		}
+		if (message.create_time) {
+			firstTime = Math.min(firstTime, message.create_time);
+			lastTime = Math.max(lastTime, message.create_time);
+		}
+	}
 
-		return Object.values(maybeRecord).filter((item): item is Conversation =>
-			Boolean(
-				item &&
-					typeof item === "object" &&
-					("mapping" in item ||
-						"title" in item ||
-						"id" in item ||
-						"conversation_id" in item),
-			),
+	const metrics: ConversationMetrics = {
+		wordCount,
+		charCount,
+		tokenEstimate: Math.round(charCount / CHARS_PER_TOKEN),
+		codeBlockCount,
+		imageCount,
+		attachmentCount,
+		duration: lastTime > firstTime ? lastTime - firstTime : 0,
+		avgReplyWords: replyCount > 0 ? Math.round(replyWords / replyCount) : 0,
+	};
+	metricsCache.set(conversation, metrics);
+	return metrics;
+}
+
+const MAX_DROPPED_DETAILS = 500;
+
+export function createImportReport(): ImportReport {
+	return {
+		shape: "unknown",
+		formats: {},
+		recordCount: 0,
+		droppedCount: 0,
+		dropped: [],
+		errors: [],
+	};
+}
+
+/**
+ * Converts one raw record through the matching importer, noting it in the
+ * report when no importer can use it.
+ */
+export function normalizeRecord(
+	record: unknown,
+	index: number,
+	report: ImportReport,
+): Conversation | null {
+	report.recordCount += 1;
+	let reason: string | null = null;
+	if (!record || typeof record !== "object" || Array.isArray(record)) {
+		reason = "Not an object";
+	} else {
+		const importer = detectImporter(record as Record<string, unknown>);
+		if (!importer) {
+			reason = "No mapping, title or ID";
+		} else {
+			const conversation = importer.convert(record as Record<string, unknown>);
+			if (conversation) {
+				report.formats[importer.id] = (report.formats[importer.id] ?? 0) + 1;
+				return conversation;
+			}
+			reason = `Unsupported ${importer.label} record`;
+		}
+	}
+
+	report.droppedCount += 1;
+	if (report.dropped.length < MAX_DROPPED_DETAILS) {
+		report.dropped.push({
+			index,
+			reason,
+			preview: (JSON.stringify(record) ?? String(record)).slice(0, 160),
+		});
+	}
+	return null;
+}
+
+export function normalizeConversations(
+	value: unknown,
+	report: ImportReport = createImportReport(),
+): Conversation[] {
+	let records: unknown[] = [];
+	if (Array.isArray(value)) {
+		report.shape = "array";
+		records = value;
+	} else if (value && typeof value === "object") {
+		const maybeRecord = value as Record<string, unknown>;
+		const key = ["conversations", "items", "data"].find((candidate) =>
+			Array.isArray(maybeRecord[candidate]),
 		);
+		if (key) {
+			report.shape = `object.${key}`;
+			records = maybeRecord[key] as unknown[];
+		} else {
+			// Keyed by ID: skip values that clearly are not conversations.
+			report.shape = "object.values";
+			records = Object.values(maybeRecord).filter(
+				(item) => item && typeof item === "object",
+			);
+		}
+	}
+
+	return records
+		.map((record, index) => normalizeRecord(record, index, report))
+		.filter(
+			(conversation): conversation is Conversation => conversation !== null,
+		);
+}
+
+export const emptyLibrary: Library = {
+	conversations: [],
+	sourceIds: [],
+	indexByKey: new Map(),
+};
+
+export function getConversationKey(conversation: Conversation) {
+	return conversation.conversation_id ?? conversation.id;
+}
+
+/**
+ * Adds `incoming` to the library, deduplicating by conversation ID. When the
+ * same conversation appears twice the copy with the newest `update_time`
+ * wins; existing positions are kept so selections stay valid.
+ */
+export function mergeConversations(
+	library: Library,
+	incoming: Conversation[],
+	sourceId: string,
+): Library {
+	const conversations = library.conversations.slice();
+	const sourceIds = library.sourceIds.slice();
+	const indexByKey = new Map(library.indexByKey);
+
+	for (const conversation of incoming) {
+		const key = getConversationKey(conversation);
+		const index = key === undefined ? undefined : indexByKey.get(key);
+		if (index === undefined) {
+			if (key !== undefined) indexByKey.set(key, conversations.length);
+			conversations.push(conversation);
+			sourceIds.push([sourceId]);
+			continue;
+		}
+		if (!sourceIds[index].includes(sourceId)) {
+			sourceIds[index] = [...sourceIds[index], sourceId];
+		}
+		if (
+			(conversation.update_time ?? 0) > (conversations[index].update_time ?? 0)
+		) {
+			conversations[index] = conversation;
+		}
 	}
 
-	return [];
+	return { conversations, sourceIds, indexByKey };
+}
+
+export function addToSnapshot(
+	snapshot: Map<string, SnapshotEntry>,
+	conversations: Conversation[],
+) {
+	for (const conversation of conversations) {
+		const key = getConversationKey(conversation);
+		if (key === undefined) continue;
+		snapshot.set(key, {
+			title: conversation.title ?? "",
+			updateTime: conversation.update_time,
+			messageIds: Object.entries(conversation.mapping ?? {})
+				.filter(([, node]) => node?.message)
+				.map(([id]) => id),
+		});
+	}
 }
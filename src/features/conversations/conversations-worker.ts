@@ -0,0 +1,96 @@
+import { createJsonRecordStream } from "../../lib/json-stream";
+import { openZipEntry } from "../../lib/zip";
+import type {
+	Conversation,
+	WorkerRequest,
+	WorkerResponse,
+} from "./conversations-types";
+import {
+	createImportReport,
+	normalizeConversations,
+	normalizeRecord,
+} from "./conversations-utils";
+
+const BATCH_SIZE = 250;
+const FLUSH_INTERVAL_MS = 200;
+
+function post(message: WorkerResponse) {
+	self.postMessage(message);
+}
+
+async function parse({ file, entry }: WorkerRequest) {
+	const source = entry
+		? await openZipEntry(file, entry)
+		: (file.stream() as ReadableStream<Uint8Array>);
+	const totalBytes = entry ? entry.size : file.size;
+	const reader = source.getReader();
+	const decoder = new TextDecoder();
+	const records = createJsonRecordStream();
+	const report = createImportReport();
+
+	let bytesRead = 0;
+	let conversationsParsed = 0;
+	let pending: Conversation[] = [];
+	let lastFlush = Date.now();
+
+	const flush = () => {
+		if (pending.length > 0) {
+			post({ type: "batch", conversations: pending });
+			pending = [];
+		}
+		post({ type: "progress", bytesRead, totalBytes, conversationsParsed });
+		lastFlush = Date.now();
+	};
+
+	const accept = (conversation: Conversation | null) => {
+		if (!conversation) return;
+		pending.push(conversation);
+		conversationsParsed += 1;
+	};
+
+	const collect = (items: unknown[]) => {
+		for (const item of items) {
+			accept(normalizeRecord(item, report.recordCount, report));
+		}
+	};
+
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		bytesRead += value.byteLength;
+		collect(records.push(decoder.decode(value, { stream: true })));
+		if (
+			pending.length >= BATCH_SIZE ||
+			Date.now() - lastFlush >= FLUSH_INTERVAL_MS
+		) {
+			flush();
+		}
+	}
+
+	collect(records.push(decoder.decode()));
+	const { shape, value, trailing } = records.finish();
+	if (shape === "array") {
+		report.shape = "array";
+		if (trailing) {
+			report.errors.push(
+				`Ignored data after the conversations array (damaged or joined file?): ${trailing}`,
+			);
+		}
+	} else if (shape === "object") {
+		for (const conversation of normalizeConversations(value, report)) {
+			accept(conversation);
+		}
+	}
+	flush();
+	post({ type: "done", conversationsParsed, report });
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+	parse(event.data).catch((err: unknown) => {
+		post({
+			type: "error",
+			message:
+				err instanceof Error ? err.message : "Unable to parse the JSON file.",
+		});
+	});
+};
@@ -1,15 +1,25 @@
+import { ConversationsBulkBar } from "./conversations-bulk-bar";
+import { ConversationsColumnMenu } from "./conversations-column-menu";
 import {
 	ConversationsProvider,
 	useConversations,
 } from "./conversations-context";
+import { ConversationsFacetSidebar } from "./conversations-facet-sidebar";
 import { ConversationsFilter } from "./conversations-filter";
 import { ConversationsHeader } from "./conversations-header";
 import { ConversationsPanel } from "./conversations-panel";
 import { ConversationsTable } from "./conversations-table";
 import type {
+	BranchSelections,
 	Conversation,
 	ConversationRow,
 	DisplayMessage,
+	ExportArchive,
+	ExportSource,
+	ImageAssetPointer,
+	MessageAttachment,
+	MessageContent,
+	SnapshotEntry,
 	Stats,
 } from "./conversations-types";
 
@@ -18,8 +28,32 @@ export const Conversations = {
 	Panel: ConversationsPanel,
 	Header: ConversationsHeader,
 	Filter: ConversationsFilter,
+	FacetSidebar: ConversationsFacetSidebar,
 	Table: ConversationsTable,
+	ColumnMenu: ConversationsColumnMenu,
+	BulkBar: ConversationsBulkBar,
 	useConversations,
 };
 
-export type { Conversation, DisplayMessage, ConversationRow, Stats };
+export { findArchiveAsset, getAssetFileId } from "./conversations-archive";
+export {
+	extractAllMessages,
+	extractMessages,
+	getBranchSelectionsTo,
+	getContentText,
+	getConversationKey,
+} from "./conversations-utils";
+
+export type {
+	BranchSelections,
+	Conversation,
+	DisplayMessage,
+	ConversationRow,
+	ExportArchive,
+	ExportSource,
+	ImageAssetPointer,
+	MessageAttachment,
+	MessageContent,
+	SnapshotEntry,
+	Stats,
+};
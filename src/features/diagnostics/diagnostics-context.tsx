@@ -0,0 +1,72 @@
+import {
+	createContext,
+	type ReactNode,
+	useContext,
+	useMemo,
+	useState,
+} from "react";
+import { Conversations } from "../conversations";
+import {
+	analyzeConversations,
+	type DiagnosticsAnalysis,
+	type IssueKind,
+} from "./diagnostics-utils";
+
+type DiagnosticsState = {
+	analysis: DiagnosticsAnalysis | null;
+	kindFilter: IssueKind | null;
+};
+
+type DiagnosticsActions = {
+	setKindFilter: (kind: IssueKind | null) => void;
+};
+
+type DiagnosticsContextValue = {
+	state: DiagnosticsState;
+	actions: DiagnosticsActions;
+	meta: Record<string, never>;
+};
+
+const DiagnosticsContext = createContext<DiagnosticsContextValue | null>(null);
+
+export function useDiagnostics() {
+	const context = useContext(DiagnosticsContext);
+	if (!context) {
+		throw new Error(
+			"Diagnostics components must be used within <Diagnostics.Provider>.",
+		);
+	}
+	return context;
+}
+
+type DiagnosticsProviderProps = {
+	children: ReactNode;
+};
+
+export function DiagnosticsProvider({ children }: DiagnosticsProviderProps) {
+	const {
+		state: { conversations, loading },
+	} = Conversations.useConversations();
+	const [kindFilter, setKindFilter] = useState<IssueKind | null>(null);
+
+	// Re-walking every mapping per streamed batch would stall the import.
+	const analysis = useMemo(
+		() =>
+			loading || conversations.length === 0
+				? null
+				: analyzeConversations(conversations),
+		[conversations, loading],
+	);
+
+	return (
+		<DiagnosticsContext.Provider
+			value={{
+				state: { analysis, kindFilter },
+				actions: { setKindFilter },
+				meta: {},
+			}}
+		>
+			{children}
+		</DiagnosticsContext.Provider>
+	);
+}
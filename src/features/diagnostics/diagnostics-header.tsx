@@ -0,0 +1,27 @@
+import { Toolbar } from "../../components/toolbar";
+import { numberFormat } from "../../lib/format";
+import { useDiagnostics } from "./diagnostics-context";
+
+export function DiagnosticsHeader() {
+	const {
+		state: { analysis },
+	} = useDiagnostics();
+
+	return (
+		<Toolbar
+			className="flex items-center justify-between gap-2 text-[11px] text-slate-500"
+			rowClass="flex items-center gap-2 h-7"
+		>
+			<Toolbar.Row>
+				<Toolbar.Text className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+					Import Diagnostics
+				</Toolbar.Text>
+			</Toolbar.Row>
+			<Toolbar.Row className="text-[10px] text-slate-500">
+				{analysis
+					? `${numberFormat.format(analysis.issues.length)} issues`
+					: "Idle"}
+			</Toolbar.Row>
+		</Toolbar>
+	);
+}
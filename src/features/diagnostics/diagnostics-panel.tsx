@@ -0,0 +1,12 @@
+import type { IDockviewPanelProps } from "dockview";
+import { DiagnosticsHeader } from "./diagnostics-header";
+import { DiagnosticsReport } from "./diagnostics-report";
+
+export function DiagnosticsPanel(_props: IDockviewPanelProps) {
+	return (
+		<div className="h-full flex flex-col gap-2 p-2">
+			<DiagnosticsHeader />
+			<DiagnosticsReport />
+		</div>
+	);
+}
@@ -0,0 +1,162 @@
+import type { ReactNode } from "react";
+import { List } from "../../components/list";
+import { numberFormat } from "../../lib/format";
+import { Conversations } from "../conversations";
+import { Dockview } from "../dockview";
+import { useDiagnostics } from "./diagnostics-context";
+import { type IssueKind, issueLabels } from "./diagnostics-utils";
+
+const MAX_VISIBLE_ISSUES = 300;
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+	return (
+		<section className="border-b border-slate-900/80 px-3 py-2">
+			<div className="text-[10px] uppercase tracking-[0.2em] text-slate-500 mb-1">
+				{title}
+			</div>
+			{children}
+		</section>
+	);
+}
+
+function Counts({ counts }: { counts: Record<string, number> }) {
+	const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+	return (
+		<div className="flex flex-wrap gap-x-3 gap-y-1 text-[11px]">
+			{entries.map(([key, count]) => (
+				<span key={key} className="text-slate-400">
+					{key}{" "}
+					<span className="text-slate-200">{numberFormat.format(count)}</span>
+				</span>
+			))}
+		</div>
+	);
+}
+
+export function DiagnosticsReport() {
+	const {
+		state: { sources },
+		actions: { onSelectRow },
+	} = Conversations.useConversations();
+	const {
+		state: { analysis, kindFilter },
+		actions: { setKindFilter },
+	} = useDiagnostics();
+	const {
+		actions: { focusChat },
+	} = Dockview.useDockview();
+
+	if (!analysis) {
+		return (
+			<div className="flex-1 border border-slate-800 bg-slate-950/50 px-3 py-6 text-slate-600 text-[11px]">
+				Load a file to see import diagnostics.
+			</div>
+		);
+	}
+
+	const issues = kindFilter
+		? analysis.issues.filter((issue) => issue.kind === kindFilter)
+		: analysis.issues;
+
+	return (
+		<div className="flex-1 border border-slate-800 bg-slate-950/50 overflow-auto text-[11px]">
+			<Section title="Sources">
+				{sources.map((source) => (
+					<div key={source.id} className="text-slate-400">
+						<span className="text-slate-200">{source.name}</span> · shape{" "}
+						<span className="text-cyan-300">
+							{source.report?.shape ?? "unknown"}
+						</span>{" "}
+						· {numberFormat.format(source.report?.recordCount ?? 0)} records
+						{Object.entries(source.report?.formats ?? {}).map(
+							([format, count]) => (
+								<span key={format}>
+									{" "}
+									· {format} {numberFormat.format(count)}
+								</span>
+							),
+						)}
+						{/* Reports saved before errors were recorded have none. */}
+						{source.report?.errors?.map((message) => (
+							<div key={message} className="mt-1 text-rose-300 break-all">
+								{message}
+							</div>
+						))}
+						{source.report && source.report.droppedCount > 0 ? (
+							<details className="mt-1">
+								<summary className="cursor-pointer text-rose-300">
+									{numberFormat.format(source.report.droppedCount)} dropped
+								</summary>
+								<ul className="mt-1 space-y-1 pl-3">
+									{source.report.dropped.map((record) => (
+										<li key={record.index} className="text-slate-500">
+											#{record.index} {record.reason}:{" "}
+											<code className="text-slate-400 break-all">
+												{record.preview}
+											</code>
+										</li>
+									))}
+								</ul>
+							</details>
+						) : null}
+					</div>
+				))}
+			</Section>
+			<Section title="Content types">
+				<Counts counts={analysis.contentTypes} />
+			</Section>
+			<Section title="Author roles">
+				<Counts counts={analysis.roles} />
+			</Section>
+			<Section title="Problems">
+				<div className="flex flex-wrap gap-1 text-[10px] uppercase tracking-[0.2em]">
+					{(Object.keys(issueLabels) as IssueKind[]).map((kind) => (
+						<button
+							key={kind}
+							type="button"
+							className={`interactive border px-2 py-1 transition ${
+								kindFilter === kind
+									? "border-cyan-400/70 bg-slate-900 text-slate-200"
+									: "border-slate-800 text-slate-400 hover:border-slate-600"
+							}`}
+							onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+						>
+							{issueLabels[kind]}{" "}
+							{numberFormat.format(analysis.issueCounts[kind])}
+						</button>
+					))}
+				</div>
+			</Section>
+			{issues.length === 0 ? (
+				<div className="px-3 py-6 text-slate-600">No problems found.</div>
+			) : (
+				<List className="divide-y divide-slate-900/80">
+					{issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+						<List.Button
+							key={`${issue.conversationIndex}-${issue.kind}-${issue.nodeId ?? index}`}
+							onClick={() => {
+								onSelectRow(issue.conversationIndex);
+								focusChat();
+							}}
+						>
+							<div className="flex items-center justify-between gap-2">
+								<div className="text-slate-400 truncate">{issue.title}</div>
+								<div className="text-[10px] text-rose-300 uppercase tracking-[0.2em] whitespace-nowrap">
+									{issueLabels[issue.kind]}
+								</div>
+							</div>
+							<div className="text-slate-600 mt-1 text-[10px] break-all">
+								{issue.detail}
+							</div>
+						</List.Button>
+					))}
+				</List>
+			)}
+			{issues.length > MAX_VISIBLE_ISSUES ? (
+				<div className="px-3 py-2 text-slate-600">
+					…and {numberFormat.format(issues.length - MAX_VISIBLE_ISSUES)} more
+				</div>
+			) : null}
+		</div>
+	);
+}
@@ -0,0 +1,134 @@
+import { type Conversation, getContentText } from "../conversations";
+
+export type IssueKind =
+	| "missing-parent"
+	| "empty-message"
+	| "unreachable-current-node"
+	| "no-messages";
+
+export type DiagnosticIssue = {
+	kind: IssueKind;
+	conversationIndex: number;
+	title: string;
+	nodeId?: string;
+	detail: string;
+};
+
+export type DiagnosticsAnalysis = {
+	messageCount: number;
+	contentTypes: Record<string, number>;
+	roles: Record<string, number>;
+	issueCounts: Record<IssueKind, number>;
+	issues: DiagnosticIssue[];
+};
+
+export const issueLabels: Record<IssueKind, string> = {
+	"missing-parent": "Missing parent",
+	"empty-message": "Empty message",
+	"unreachable-current-node": "Unreachable current_node",
+	"no-messages": "No messages",
+};
+
+function increment(counts: Record<string, number>, key: string) {
+	counts[key] = (counts[key] ?? 0) + 1;
+}
+
+function checkCurrentNode(conversation: Conversation) {
+	const mapping = conversation.mapping ?? {};
+	const leaf = conversation.current_node;
+	if (!leaf) return "No current_node set";
+	if (!mapping[leaf]) return `current_node ${leaf} is not in the mapping`;
+	const seen = new Set<string>();
+	let id: string | null | undefined = leaf;
+	while (id) {
+		if (seen.has(id)) return `Parent cycle at ${id}`;
+		seen.add(id);
+		if (!mapping[id]) return `Parent chain breaks at ${id}`;
+		const parent: string | null | undefined = mapping[id].parent;
+		id = parent;
+	}
+	return null;
+}
+
+export function analyzeConversations(
+	conversations: Conversation[],
+): DiagnosticsAnalysis {
+	const analysis: DiagnosticsAnalysis = {
+		messageCount: 0,
+		contentTypes: {},
+		roles: {},
+		issueCounts: {
+			"missing-parent": 0,
+			"empty-message": 0,
+			"unreachable-current-node": 0,
+			"no-messages": 0,
+		},
+		issues: [],
+	};
+
+	const report = (issue: DiagnosticIssue) => {
+		analysis.issueCounts[issue.kind] += 1;
+		analysis.issues.push(issue);
+	};
+
+	conversations.forEach((conversation, conversationIndex) => {
+		const title = conversation.title || "Untitled";
+		const mapping = conversation.mapping ?? {};
+		let messages = 0;
+
+		for (const [nodeId, node] of Object.entries(mapping)) {
+			if (node?.parent && !mapping[node.parent]) {
+				report({
+					kind: "missing-parent",
+					conversationIndex,
+					title,
+					nodeId,
+					detail: `Parent ${node.parent} is not in the mapping`,
+				});
+			}
+			const message = node?.message;
+			if (!message) continue;
+			messages += 1;
+			const role = message.author?.role ?? "unknown";
+			increment(analysis.roles, role);
+			increment(analysis.contentTypes, message.content?.content_type ?? "none");
+
+			// System prompts are routinely blank; only flag turns a reader would see.
+			const hasParts = (message.content?.parts ?? []).some(
+				(part) => part && typeof part === "object",
+			);
+			if (role !== "system" && !hasParts && !getContentText(message.content)) {
+				report({
+					kind: "empty-message",
+					conversationIndex,
+					title,
+					nodeId,
+					detail: `${role} ${message.content?.content_type ?? "message"} has no content`,
+				});
+			}
+		}
+
+		analysis.messageCount += messages;
+		if (messages === 0) {
+			report({
+				kind: "no-messages",
+				conversationIndex,
+				title,
+				detail: "Mapping contains no messages",
+			});
+			return;
+		}
+		const currentNodeProblem = checkCurrentNode(conversation);
+		if (currentNodeProblem) {
+			report({
+				kind: "unreachable-current-node",
+				conversationIndex,
+				title,
+				nodeId: conversation.current_node,
+				detail: currentNodeProblem,
+			});
+		}
+	});
+
+	return analysis;
+}
@@ -0,0 +1,12 @@
+import { DiagnosticsProvider, useDiagnostics } from "./diagnostics-context";
+import { DiagnosticsHeader } from "./diagnostics-header";
+import { DiagnosticsPanel } from "./diagnostics-panel";
+import { DiagnosticsReport } from "./diagnostics-report";
+
+export const Diagnostics = {
+	Provider: DiagnosticsProvider,
+	Panel: DiagnosticsPanel,
+	Header: DiagnosticsHeader,
+	Report: DiagnosticsReport,
+	useDiagnostics,
+};
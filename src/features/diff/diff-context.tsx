@@ -0,0 +1,133 @@
+import {
+	createContext,
+	type ReactNode,
+	useContext,
+	useMemo,
+	useState,
+} from "react";
+import {
+	type Conversation,
+	Conversations,
+	type ExportSource,
+	getConversationKey,
+} from "../conversations";
+import { type DiffEntry, type DiffStatus, diffSnapshots } from "./diff-utils";
+
+type DiffState = {
+	older: ExportSource | null;
+	newer: ExportSource | null;
+	active: boolean;
+	entries: DiffEntry[];
+	counts: Record<DiffStatus, number>;
+	statusFilter: DiffStatus | null;
+};
+
+type DiffActions = {
+	setOlderId: (id: string | null) => void;
+	setNewerId: (id: string | null) => void;
+	swap: () => void;
+	setStatusFilter: (status: DiffStatus | null) => void;
+};
+
+type DiffMeta = {
+	getEntry: (conversation: Conversation | null) => DiffEntry | null;
+	getAddedMessageIds: (conversation: Conversation | null) => Set<string> | null;
+};
+
+type DiffContextValue = {
+	state: DiffState;
+	actions: DiffActions;
+	meta: DiffMeta;
+};
+
+const DiffContext = createContext<DiffContextValue | null>(null);
+
+export function useDiff() {
+	const context = useContext(DiffContext);
+	if (!context) {
+		throw new Error("Diff components must be used within <Diff.Provider>.");
+	}
+	return context;
+}
+
+type DiffProviderProps = {
+	children: ReactNode;
+};
+
+export function DiffProvider({ children }: DiffProviderProps) {
+	const {
+		state: { sources },
+	} = Conversations.useConversations();
+	const [olderId, setOlderId] = useState<string | null>(null);
+	const [newerId, setNewerId] = useState<string | null>(null);
+	const [statusFilter, setStatusFilter] = useState<DiffStatus | null>(null);
+
+	const older = sources.find((source) => source.id === olderId) ?? null;
+	const newer = sources.find((source) => source.id === newerId) ?? null;
+	const active = Boolean(older && newer && older !== newer);
+
+	const entries = useMemo(
+		() =>
+			older && newer && older !== newer
+				? diffSnapshots(older.snapshot, newer.snapshot)
+				: [],
+		[older, newer],
+	);
+
+	const entriesByKey = useMemo(
+		() => new Map(entries.map((entry) => [entry.key, entry])),
+		[entries],
+	);
+
+	const counts: Record<DiffStatus, number> = {
+		added: 0,
+		removed: 0,
+		updated: 0,
+		unchanged: 0,
+	};
+	for (const entry of entries) {
+		counts[entry.status] += 1;
+	}
+
+	const getEntry = (conversation: Conversation | null) => {
+		if (!active || !conversation) return null;
+		const key = getConversationKey(conversation);
+		return key === undefined ? null : (entriesByKey.get(key) ?? null);
+	};
+
+	const meta: DiffMeta = {
+		getEntry,
+		getAddedMessageIds: (conversation) => {
+			const entry = getEntry(conversation);
+			if (!entry || !conversation || !older || !newer) return null;
+			if (entry.status !== "added" && entry.status !== "updated") return null;
+			const key = getConversationKey(conversation) ?? "";
+			const previous = new Set(older.snapshot.get(key)?.messageIds ?? []);
+			return new Set(
+				(newer.snapshot.get(key)?.messageIds ?? []).filter(
+					(id) => !previous.has(id),
+				),
+			);
+		},
+	};
+
+	return (
+		<DiffContext.Provider
+			value={{
+				state: { older, newer, active, entries, counts, statusFilter },
+				actions: {
+					setOlderId,
+					setNewerId,
+					swap: () => {
+						setOlderId(newerId);
+						setNewerId(olderId);
+					},
+					setStatusFilter,
+				},
+				meta,
+			}}
+		>
+			{children}
+		</DiffContext.Provider>
+	);
+}
@@ -0,0 +1,69 @@
+import { Toolbar } from "../../components/toolbar";
+import { Conversations } from "../conversations";
+import { useDiff } from "./diff-context";
+
+const selectClass =
+	"interactive h-full min-w-0 flex-1 border border-slate-800 bg-slate-950/80 px-1 text-[11px] text-slate-200 focus:outline-none focus:border-cyan-400/70";
+
+export function DiffHeader() {
+	const {
+		state: { sources },
+	} = Conversations.useConversations();
+	const {
+		state: { older, newer },
+		actions: { setOlderId, setNewerId, swap },
+	} = useDiff();
+
+	return (
+		<Toolbar
+			className="flex flex-col gap-2 text-[11px] text-slate-500"
+			rowClass="flex items-center gap-2 h-7"
+		>
+			<Toolbar.Row>
+				<Toolbar.Text className="text-[10px] uppercase tracking-[0.2em] text-slate-500">
+					Export Diff
+				</Toolbar.Text>
+				{sources.length < 2 ? (
+					<span className="text-[10px] text-slate-600">
+						Load two exports to compare them.
+					</span>
+				) : null}
+			</Toolbar.Row>
+			<Toolbar.Row>
+				<select
+					aria-label="Older export"
+					className={selectClass}
+					value={older?.id ?? ""}
+					onChange={(event) => setOlderId(event.target.value || null)}
+				>
+					<option value="">Older export…</option>
+					{sources.map((source) => (
+						<option key={source.id} value={source.id}>
+							{source.name}
+						</option>
+					))}
+				</select>
+				<Toolbar.Button
+					onClick={swap}
+					aria-label="Swap exports"
+					className="interactive px-1.5 tracking-normal hover:text-white transition"
+				>
+					{"[⇄]"}
+				</Toolbar.Button>
+				<select
+					aria-label="Newer export"
+					className={selectClass}
+					value={newer?.id ?? ""}
+					onChange={(event) => setNewerId(event.target.value || null)}
+				>
+					<option value="">Newer export…</option>
+					{sources.map((source) => (
+						<option key={source.id} value={source.id}>
+							{source.name}
+						</option>
+					))}
+				</select>
+			</Toolbar.Row>
+		</Toolbar>
+	);
+}
@@ -0,0 +1,12 @@
+import type { IDockviewPanelProps } from "dockview";
+import { DiffHeader } from "./diff-header";
+import { DiffResults } from "./diff-results";
+
+export function DiffPanel(_props: IDockviewPanelProps) {
+	return (
+		<div className="h-full flex flex-col gap-2 p-2">
+			<DiffHeader />
+			<DiffResults />
+		</div>
+	);
+}
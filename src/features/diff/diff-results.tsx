@@ -0,0 +1,106 @@
+import { List } from "../../components/list";
+import { formatTimestamp, numberFormat } from "../../lib/format";
+import { Conversations } from "../conversations";
+import { Dockview } from "../dockview";
+import { useDiff } from "./diff-context";
+import { type DiffStatus, diffStatuses } from "./diff-utils";
+
+const statusClass: Record<DiffStatus, string> = {
+	added: "text-emerald-300",
+	updated: "text-cyan-300",
+	removed: "text-rose-300",
+	unchanged: "text-slate-500",
+};
+
+export function DiffResults() {
+	const {
+		state: { active, entries, counts, statusFilter },
+		actions: { setStatusFilter },
+	} = useDiff();
+	const {
+		state: { indexByKey },
+		actions: { onSelectRow },
+	} = Conversations.useConversations();
+	const {
+		actions: { focusChat },
+	} = Dockview.useDockview();
+
+	if (!active) {
+		return (
+			<div className="flex-1 border border-slate-800 bg-slate-950/50 px-3 py-6 text-slate-600 text-[11px]">
+				Pick an older and a newer export to see what changed.
+			</div>
+		);
+	}
+
+	const visible = statusFilter
+		? entries.filter((entry) => entry.status === statusFilter)
+		: entries.filter((entry) => entry.status !== "unchanged");
+
+	return (
+		<>
+			<div className="flex flex-wrap items-center gap-1 text-[10px] uppercase tracking-[0.2em]">
+				{diffStatuses.map((status) => (
+					<button
+						key={status}
+						type="button"
+						className={`interactive border px-2 py-1 transition ${
+							statusFilter === status
+								? "border-cyan-400/70 bg-slate-900"
+								: "border-slate-800 hover:border-slate-600"
+						} ${statusClass[status]}`}
+						onClick={() =>
+							setStatusFilter(statusFilter === status ? null : status)
+						}
+					>
+						{status} {numberFormat.format(counts[status])}
+					</button>
+				))}
+			</div>
+			<div className="flex-1 border border-slate-800 bg-slate-950/50 overflow-auto">
+				{visible.length === 0 ? (
+					<div className="px-3 py-6 text-slate-600 text-[11px]">
+						No differences.
+					</div>
+				) : (
+					<List className="divide-y divide-slate-900/80">
+						{visible.map((entry) => {
+							const index = indexByKey.get(entry.key);
+							return (
+								<List.Button
+									key={entry.key}
+									disabled={index === undefined}
+									onClick={() => {
+										if (index === undefined) return;
+										onSelectRow(index);
+										focusChat();
+									}}
+								>
+									<div className="flex items-center justify-between gap-2">
+										<div className="text-slate-400 truncate">
+											{entry.title || "Untitled"}
+										</div>
+										<div
+											className={`text-[10px] uppercase tracking-[0.2em] ${statusClass[entry.status]}`}
+										>
+											{entry.status}
+										</div>
+									</div>
+									<div className="text-slate-600 mt-1 text-[10px]">
+										{formatTimestamp(entry.updateTime)}
+										{entry.status === "updated"
+											? ` · +${numberFormat.format(entry.messagesAdded)} msgs`
+											: ""}
+										{entry.status === "updated" && entry.messagesRemoved > 0
+											? ` · −${numberFormat.format(entry.messagesRemoved)} msgs`
+											: ""}
+									</div>
+								</List.Button>
+							);
+						})}
+					</List>
+				)}
+			</div>
+		</>
+	);
+}
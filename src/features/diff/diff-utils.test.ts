@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { SnapshotEntry } from "../conversations";
+import { diffSnapshots } from "./diff-utils";
+
+function snapshot(entries: Record<string, SnapshotEntry>) {
+	return new Map(Object.entries(entries));
+}
+
+describe("diffSnapshots", () => {
+	const older = snapshot({
+		kept: { title: "Kept", updateTime: 10, messageIds: ["k1", "k2"] },
+		grown: { title: "Grown", updateTime: 20, messageIds: ["g1"] },
+		edited: { title: "Edited", updateTime: 30, messageIds: ["e1", "e2"] },
+		renamed: { title: "Old name", updateTime: 40, messageIds: [] },
+		gone: { title: "Gone", updateTime: 50, messageIds: ["x1", "x2", "x3"] },
+	});
+	const newer = snapshot({
+		kept: { title: "Kept", updateTime: 10, messageIds: ["k2", "k1"] },
+		grown: { title: "Grown", updateTime: 60, messageIds: ["g1", "g2", "g3"] },
+		edited: { title: "Edited", updateTime: 30, messageIds: ["e1", "e3"] },
+		renamed: { title: "New name", updateTime: 40, messageIds: [] },
+		fresh: { title: "Fresh", messageIds: ["f1"] },
+	});
+
+	it("classifies each conversation and counts message changes", () => {
+		const byKey = Object.fromEntries(
+			diffSnapshots(older, newer).map((entry) => [entry.key, entry]),
+		);
+		expect(byKey).toMatchObject({
+			kept: { status: "unchanged", messagesAdded: 0, messagesRemoved: 0 },
+			grown: { status: "updated", messagesAdded: 2, messagesRemoved: 0 },
+			edited: { status: "updated", messagesAdded: 1, messagesRemoved: 1 },
+			renamed: { status: "updated", title: "New name" },
+			fresh: { status: "added", messagesAdded: 1, messagesRemoved: 0 },
+			gone: { status: "removed", title: "Gone", messagesRemoved: 3 },
+		});
+	});
+
+	it("sorts by most recent update, undated last", () => {
+		expect(diffSnapshots(older, newer).map((entry) => entry.key)).toEqual([
+			"grown",
+			"gone",
+			"renamed",
+			"edited",
+			"kept",
+			"fresh",
+		]);
+	});
+
+	it("finds nothing between identical snapshots", () => {
+		expect(
+			diffSnapshots(older, older).every(
+				(entry) => entry.status === "unchanged",
+			),
+		).toBe(true);
+		expect(diffSnapshots(new Map(), new Map())).toEqual([]);
+	});
+});
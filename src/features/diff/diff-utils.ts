@@ -0,0 +1,76 @@
+import type { SnapshotEntry } from "../conversations";
+
+export type DiffStatus = "added" | "removed" | "updated" | "unchanged";
+
+export type DiffEntry = {
+	key: string;
+	title: string;
+	status: DiffStatus;
+	messagesAdded: number;
+	messagesRemoved: number;
+	updateTime?: number;
+};
+
+export const diffStatuses: DiffStatus[] = [
+	"added",
+	"updated",
+	"removed",
+	"unchanged",
+];
+
+export function diffSnapshots(
+	older: Map<string, SnapshotEntry>,
+	newer: Map<string, SnapshotEntry>,
+): DiffEntry[] {
+	const entries: DiffEntry[] = [];
+
+	for (const [key, next] of newer) {
+		const previous = older.get(key);
+		if (!previous) {
+			entries.push({
+				key,
+				title: next.title,
+				status: "added",
+				messagesAdded: next.messageIds.length,
+				messagesRemoved: 0,
+				updateTime: next.updateTime,
+			});
+			continue;
+		}
+		const previousIds = new Set(previous.messageIds);
+		const nextIds = new Set(next.messageIds);
+		const messagesAdded = next.messageIds.filter(
+			(id) => !previousIds.has(id),
+		).length;
+		const messagesRemoved = previous.messageIds.filter(
+			(id) => !nextIds.has(id),
+		).length;
+		const changed =
+			messagesAdded > 0 ||
+			messagesRemoved > 0 ||
+			next.title !== previous.title ||
+			next.updateTime !== previous.updateTime;
+		entries.push({
+			key,
+			title: next.title,
+			status: changed ? "updated" : "unchanged",
+			messagesAdded,
+			messagesRemoved,
+			updateTime: next.updateTime,
+		});
+	}
+
+	for (const [key, previous] of older) {
+		if (newer.has(key)) continue;
+		entries.push({
+			key,
+			title: previous.title,
+			status: "removed",
+			messagesAdded: 0,
+			messagesRemoved: previous.messageIds.length,
+			updateTime: previous.updateTime,
+		});
+	}
+
+	return entries.sort((a, b) => (b.updateTime ?? 0) - (a.updateTime ?? 0));
+}
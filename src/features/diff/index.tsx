@@ -0,0 +1,14 @@
+import { DiffProvider, useDiff } from "./diff-context";
+import { DiffHeader } from "./diff-header";
+import { DiffPanel } from "./diff-panel";
+import { DiffResults } from "./diff-results";
+
+export const Diff = {
+	Provider: DiffProvider,
+	Panel: DiffPanel,
+	Header: DiffHeader,
+	Results: DiffResults,
+	useDiff,
+};
+
+export type { DiffEntry, DiffStatus } from "./diff-utils";
@@ -18,12 +18,16 @@ type DockviewActions = {
 	popoutChat: () => void;
 	popoutSearch: () => void;
 	focusChat: () => void;
+	/** Opens (or focuses) a chat tab pinned to one conversation, by its key. */
+	openChat: (conversationKey: string, title: string) => void;
 };
 
 type DockviewPanels = {
 	conversations: IDockviewPanel | null;
 	chat: IDockviewPanel | null;
 	search: IDockviewPanel | null;
+	diff: IDockviewPanel | null;
+	diagnostics: IDockviewPanel | null;
 };
 
 type DockviewMeta = {
@@ -60,6 +64,8 @@ function DockviewProvider({ children }: DockviewProviderProps) {
 		conversations: null,
 		chat: null,
 		search: null,
+		diff: null,
+		diagnostics: null,
 	});
 
 	const actions: DockviewActions = {
@@ -81,6 +87,25 @@ function DockviewProvider({ children }: DockviewProviderProps) {
 		focusChat: () => {
 			panelsRef.current.chat?.api.setActive();
 		},
+		openChat: (conversationKey, title) => {
+			const api = apiRef.current;
+			if (!api) return;
+			const id = `chat-${conversationKey}`;
+			const existing = api.getPanel(id);
+			if (existing) {
+				existing.api.setActive();
+				return;
+			}
+			api.addPanel({
+				id,
+				component: "chatTab",
+				title: title.length > 24 ? `${title.slice(0, 23)}…` : title,
+				params: { conversationKey },
+				position: panelsRef.current.chat
+					? { referencePanel: panelsRef.current.chat, direction: "within" }
+					: undefined,
+			});
+		},
 	};
 
 	return (
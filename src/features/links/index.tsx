@@ -0,0 +1,7 @@
+import { LinksSync } from "./links-sync";
+
+export const Links = {
+	Sync: LinksSync,
+};
+
+export type { LinkState } from "./links-utils";
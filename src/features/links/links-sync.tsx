@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Chat } from "../chat";
+import { Conversations, getConversationKey } from "../conversations";
+import { Search } from "../search";
+import { buildHash, type LinkState, parseHash } from "./links-utils";
+
+type Restore = {
+	link: LinkState;
+	/**
+	 * Each step uses the state the previous one set, and gives up when that
+	 * state didn't take so the hash goes back to following the selection.
+	 */
+	step: "library" | "conversation" | "message";
+};
+
+function readHash(): Restore | null {
+	const link = parseHash(window.location.hash);
+	return link ? { link, step: "library" } : null;
+}
+
+/**
+ * Mirrors the selected conversation and message and the filter and search
+ * queries into the URL hash, and restores them from it once the library loads.
+ */
+export function LinksSync() {
+	const {
+		state: { conversations, indexByKey, loading, globalFilter },
+		actions: { onSelectRow, setGlobalFilter },
+	} = Conversations.useConversations();
+	const {
+		state: { query: searchQuery },
+		actions: { setQuery: setSearchQuery },
+	} = Search.useSearch();
+	const {
+		state: { conversation, messages, selectedMessageId, query: chatQuery },
+		actions: { setQuery: setChatQuery, selectMessage },
+		meta: { scrollToMessage },
+	} = Chat.useChat();
+	const [restore, setRestore] = useState<Restore | null>(readHash);
+
+	const conversationKey =
+		(conversation && getConversationKey(conversation)) ?? "";
+
+	// Runs after every render until the link is restored.
+	useEffect(() => {
+		if (!restore) return;
+		const { link, step } = restore;
+
+		if (step === "library") {
+			if (conversations.length === 0) return;
+			const index = link.conversation
+				? indexByKey.get(link.conversation)
+				: undefined;
+			// The conversation may still be in a later batch of the import.
+			if (index === undefined && link.conversation && loading) return;
+			setGlobalFilter(link.filter);
+			setSearchQuery(link.searchQuery);
+			if (index === undefined) {
+				setRestore(null);
+				return;
+			}
+			onSelectRow(index);
+			setRestore({ link, step: "conversation" });
+			return;
+		}
+
+		// The selection is applied in the same render as the step, so a
+		// different conversation here means the row couldn't be selected, say it
+		// moved in a later import batch, or the user has picked another since.
+		if (conversationKey !== link.conversation) {
+			setRestore(null);
+			return;
+		}
+
+		if (step === "conversation") {
+			const hasMessage = Boolean(
+				link.message && conversation?.mapping?.[link.message],
+			);
+			if (hasMessage) selectMessage(link.message);
+			setChatQuery(link.chatQuery);
+			// With a query the transcript follows the match in the message.
+			setRestore(
+				hasMessage && !link.chatQuery ? { link, step: "message" } : null,
+			);
+			return;
+		}
+
+		if (messages.some((message) => message.id === link.message)) {
+			scrollToMessage(link.message);
+		}
+		setRestore(null);
+	});
+
+	useEffect(() => {
+		const handleHashChange = () => {
+			const next = readHash();
+			if (next) setRestore(next);
+		};
+		window.addEventListener("hashchange", handleHashChange);
+		return () => window.removeEventListener("hashchange", handleHashChange);
+	}, []);
+
+	useEffect(() => {
+		if (restore) return;
+		const hash = buildHash({
+			conversation: conversationKey,
+			message: selectedMessageId ?? "",
+			chatQuery,
+			filter: globalFilter,
+			searchQuery,
+		});
+		if (hash === window.location.hash.replace(/^#/, "")) return;
+		// Replacing keeps typing in a filter out of the back button.
+		const { pathname, search } = window.location;
+		window.history.replaceState(
+			null,
+			"",
+			hash ? `#${hash}` : `${pathname}${search}`,
+		);
+	}, [
+		restore,
+		conversationKey,
+		selectedMessageId,
+		chatQuery,
+		globalFilter,
+		searchQuery,
+	]);
+
+	return null;
+}
@@ -0,0 +1,39 @@
+/** App state carried in the URL hash, e.g. `#c=…&m=…&q=…`. */
+export type LinkState = {
+	/** Conversation key, as from `getConversationKey`. */
+	conversation: string;
+	message: string;
+	chatQuery: string;
+	filter: string;
+	searchQuery: string;
+};
+
+const params: Record<keyof LinkState, string> = {
+	conversation: "c",
+	message: "m",
+	chatQuery: "q",
+	filter: "f",
+	searchQuery: "s",
+};
+
+const fields = Object.keys(params) as Array<keyof LinkState>;
+
+/** Null when the hash holds none of the link fields. */
+export function parseHash(hash: string): LinkState | null {
+	const search = new URLSearchParams(hash.replace(/^#/, ""));
+	if (!fields.some((field) => search.has(params[field]))) return null;
+	const link = {} as LinkState;
+	for (const field of fields) {
+		link[field] = search.get(params[field]) ?? "";
+	}
+	return link;
+}
+
+/** Empty fields are left out; an empty string means no hash at all. */
+export function buildHash(link: LinkState) {
+	const search = new URLSearchParams();
+	for (const field of fields) {
+		if (link[field]) search.set(params[field], link[field]);
+	}
+	return search.toString();
+}
@@ -7,7 +7,7 @@ import {
 	useRef,
 	useState,
 } from "react";
-import { Conversations } from "../conversations";
+import { Conversations, getContentText } from "../conversations";
 
 type SearchRecord = {
 	id: string;
@@ -102,13 +102,7 @@ export function SearchProvider({ children }: SearchProviderProps) {
 				for (const node of mappingNodes) {
 					const message = node?.message;
 					if (!message) continue;
-					const parts = Array.isArray(message.content?.parts)
-						? (message.content?.parts ?? [])
-						: [];
-					const text = parts
-						.map((part) => String(part))
-						.join("\n")
-						.trim();
+					const text = getContentText(message.content);
 					if (!text) continue;
 					const id = `m-${cIndex}-${count}`;
 					const role = message.author?.role ?? "other";
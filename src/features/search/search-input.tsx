@@ -1,4 +1,6 @@
+import { useRef } from "react";
 import { Toolbar } from "../../components/toolbar";
+import { Shortcuts } from "../shortcuts";
 import { useSearch } from "./search-context";
 
 export function SearchInput() {
@@ -6,6 +8,18 @@ export function SearchInput() {
 		state: { query },
 		actions: { setQuery },
 	} = useSearch();
+	const inputRef = useRef<HTMLInputElement | null>(null);
+
+	Shortcuts.useShortcutHandlers({
+		focusFilter: () => {
+			inputRef.current?.focus();
+			inputRef.current?.select();
+		},
+		clear: () => {
+			setQuery("");
+			inputRef.current?.blur();
+		},
+	});
 
 	return (
 		<Toolbar
@@ -15,6 +29,7 @@ export function SearchInput() {
 			<Toolbar.Row className="w-full">
 				<span className="text-slate-500">[?]</span>
 				<Toolbar.Input
+					ref={inputRef}
 					value={query}
 					onChange={(event) => setQuery(event.target.value)}
 					placeholder="Search all messages"
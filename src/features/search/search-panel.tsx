@@ -1,14 +1,17 @@
 import type { IDockviewPanelProps } from "dockview";
+import { Shortcuts } from "../shortcuts";
 import { SearchHeader } from "./search-header";
 import { SearchInput } from "./search-input";
 import { SearchResults } from "./search-results";
 
-export function SearchPanel(_props: IDockviewPanelProps) {
+export function SearchPanel(props: IDockviewPanelProps) {
 	return (
-		<div className="h-full flex flex-col gap-2 p-2">
-			<SearchHeader />
-			<SearchInput />
-			<SearchResults />
-		</div>
+		<Shortcuts.Scope id={props.api.id}>
+			<div className="h-full flex flex-col gap-2 p-2">
+				<SearchHeader />
+				<SearchInput />
+				<SearchResults />
+			</div>
+		</Shortcuts.Scope>
 	);
 }
@@ -0,0 +1,18 @@
+import {
+	ShortcutScope,
+	ShortcutsProvider,
+	useShortcutHandlers,
+	useShortcuts,
+} from "./shortcuts-context";
+import { ShortcutsOverlay } from "./shortcuts-overlay";
+
+export const Shortcuts = {
+	Provider: ShortcutsProvider,
+	Scope: ShortcutScope,
+	Overlay: ShortcutsOverlay,
+	useShortcuts,
+	useShortcutHandlers,
+};
+
+export type { ShortcutHandlers } from "./shortcuts-context";
+export type { CommandId } from "./shortcuts-utils";
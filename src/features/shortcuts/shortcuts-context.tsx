@@ -0,0 +1,214 @@
+import {
+	createContext,
+	type MutableRefObject,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useRef,
+	useState,
+} from "react";
+import { Dockview } from "../dockview";
+import {
+	type Bindings,
+	type CommandId,
+	commandIds,
+	commands,
+	defaultBindings,
+	getKeyName,
+	isActivatable,
+	isInModal,
+	isTypingTarget,
+	loadBindings,
+	saveBindings,
+} from "./shortcuts-utils";
+
+export type ShortcutHandlers = Partial<Record<CommandId, () => void>>;
+
+type Registration = {
+	/** Dockview panel ID the handlers belong to. */
+	scope: string | null;
+	handlersRef: MutableRefObject<ShortcutHandlers>;
+};
+
+type ShortcutsState = {
+	bindings: Bindings;
+	isHelpOpen: boolean;
+	/** Command waiting for its new key in the help overlay. */
+	recording: CommandId | null;
+};
+
+type ShortcutsActions = {
+	setIsHelpOpen: (value: boolean | ((old: boolean) => boolean)) => void;
+	setRecording: (id: CommandId | null) => void;
+	resetBindings: () => void;
+};
+
+type ShortcutsMeta = {
+	registrationsRef: MutableRefObject<Registration[]>;
+};
+
+type ShortcutsContextValue = {
+	state: ShortcutsState;
+	actions: ShortcutsActions;
+	meta: ShortcutsMeta;
+};
+
+const ShortcutsContext = createContext<ShortcutsContextValue | null>(null);
+
+const ShortcutScopeContext = createContext<string | null>(null);
+
+export function useShortcuts() {
+	const context = useContext(ShortcutsContext);
+	if (!context) {
+		throw new Error(
+			"Shortcuts components must be used within <Shortcuts.Provider>.",
+		);
+	}
+	return context;
+}
+
+/**
+ * Registers handlers for the surrounding panel. Panel-local commands only run
+ * in the active panel; the rest fall back to the first panel that handles them.
+ */
+export function useShortcutHandlers(handlers: ShortcutHandlers) {
+	const {
+		meta: { registrationsRef },
+	} = useShortcuts();
+	const scope = useContext(ShortcutScopeContext);
+	const handlersRef = useRef(handlers);
+	handlersRef.current = handlers;
+
+	useEffect(() => {
+		const registration: Registration = { scope, handlersRef };
+		registrationsRef.current = [...registrationsRef.current, registration];
+		return () => {
+			registrationsRef.current = registrationsRef.current.filter(
+				(item) => item !== registration,
+			);
+		};
+	}, [registrationsRef, scope]);
+}
+
+type ShortcutScopeProps = {
+	id: string;
+	children: ReactNode;
+};
+
+export function ShortcutScope({ id, children }: ShortcutScopeProps) {
+	return (
+		<ShortcutScopeContext.Provider value={id}>
+			{children}
+		</ShortcutScopeContext.Provider>
+	);
+}
+
+type ShortcutsProviderProps = {
+	children: ReactNode;
+};
+
+export function ShortcutsProvider({ children }: ShortcutsProviderProps) {
+	const {
+		meta: { apiRef, panelsRef },
+	} = Dockview.useDockview();
+	const [bindings, setBindings] = useState<Bindings>(loadBindings);
+	const [isHelpOpen, setIsHelpOpen] = useState(false);
+	const [recording, setRecording] = useState<CommandId | null>(null);
+	const registrationsRef = useRef<Registration[]>([]);
+	const handleKeyRef = useRef<(event: KeyboardEvent) => void>(() => {});
+
+	useEffect(() => {
+		saveBindings(bindings);
+	}, [bindings]);
+
+	const globalHandlers: ShortcutHandlers = {
+		showHelp: () => setIsHelpOpen((open) => !open),
+		showConversations: () => panelsRef.current.conversations?.api.setActive(),
+		showSearch: () => panelsRef.current.search?.api.setActive(),
+		showChat: () => panelsRef.current.chat?.api.setActive(),
+	};
+
+	const findHandler = (command: CommandId) => {
+		const global = globalHandlers[command];
+		if (global) return global;
+		const activeId = apiRef.current?.activePanel?.id ?? null;
+		const candidates = registrationsRef.current.filter(
+			(registration) => registration.handlersRef.current[command],
+		);
+		const registration =
+			candidates.find((candidate) => candidate.scope === activeId) ??
+			(commands[command].local ? undefined : candidates[0]);
+		return registration?.handlersRef.current[command];
+	};
+
+	handleKeyRef.current = (event) => {
+		if (event.defaultPrevented || event.isComposing) return;
+		const key = getKeyName(event);
+		if (!key) return;
+
+		if (recording) {
+			event.preventDefault();
+			// A key moves from whichever command had it.
+			if (key !== "Escape") {
+				setBindings((old) => {
+					const next = { ...old };
+					for (const id of commandIds) {
+						if (next[id] === key) next[id] = "";
+					}
+					next[recording] = key;
+					return next;
+				});
+			}
+			setRecording(null);
+			return;
+		}
+		if (isHelpOpen && key === "Escape") {
+			event.preventDefault();
+			setIsHelpOpen(false);
+			return;
+		}
+
+		const command = commandIds.find((id) => bindings[id] === key);
+		if (!command || (isHelpOpen && command !== "showHelp")) return;
+		// The help overlay is a modal too, but takes its own toggle key.
+		if (!isHelpOpen && isInModal(event.target)) return;
+		const hasModifier = event.ctrlKey || event.altKey || event.metaKey;
+		if (isTypingTarget(event.target) && key !== "Escape" && !hasModifier) {
+			return;
+		}
+		if ((key === "Enter" || key === "Space") && isActivatable(event.target)) {
+			return;
+		}
+		const handler = findHandler(command);
+		if (!handler) return;
+		event.preventDefault();
+		handler();
+	};
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => handleKeyRef.current(event);
+		window.addEventListener("keydown", handleKeyDown);
+		return () => window.removeEventListener("keydown", handleKeyDown);
+	}, []);
+
+	const actions: ShortcutsActions = {
+		setIsHelpOpen: (value) => {
+			setIsHelpOpen(value);
+			setRecording(null);
+		},
+		setRecording: (id) => setRecording(id),
+		resetBindings: () => setBindings(defaultBindings),
+	};
+
+	return (
+		<ShortcutsContext.Provider
+			value={{
+				state: { bindings, isHelpOpen, recording },
+				actions,
+				meta: { registrationsRef },
+			}}
+		>
+			{children}
+		</ShortcutsContext.Provider>
+	);
+}
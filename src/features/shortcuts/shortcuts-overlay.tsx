@@ -0,0 +1,78 @@
+import { Toolbar } from "../../components/toolbar";
+import { useShortcuts } from "./shortcuts-context";
+import { commandIds, commands, formatKeyName } from "./shortcuts-utils";
+
+const groups = [...new Set(commandIds.map((id) => commands[id].group))];
+
+export function ShortcutsOverlay() {
+	const {
+		state: { bindings, isHelpOpen, recording },
+		actions: { setIsHelpOpen, setRecording, resetBindings },
+	} = useShortcuts();
+
+	if (!isHelpOpen) return null;
+
+	const idsByGroup = (group: string) =>
+		commandIds.filter((id) => commands[id].group === group);
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+			<div
+				role="dialog"
+				aria-modal
+				aria-label="Keyboard shortcuts"
+				className="max-h-full w-full max-w-md overflow-y-auto border border-slate-700 bg-slate-950 p-3 text-[11px] text-slate-300 shadow-lg"
+			>
+				<Toolbar
+					className="mb-2 flex items-center justify-between"
+					rowClass="flex items-center gap-2 h-7"
+				>
+					<Toolbar.Text className="uppercase tracking-[0.25em] text-slate-400">
+						Keyboard shortcuts
+					</Toolbar.Text>
+					<Toolbar.Row>
+						<Toolbar.Button onClick={resetBindings}>Reset</Toolbar.Button>
+						<Toolbar.Button onClick={() => setIsHelpOpen(false)}>
+							<span className="text-rose-300">[x]</span> Close
+						</Toolbar.Button>
+					</Toolbar.Row>
+				</Toolbar>
+				{groups.map((group) => (
+					<section key={group} className="mt-2">
+						<h2 className="mb-1 text-[10px] uppercase tracking-[0.2em] text-slate-500">
+							{group}
+						</h2>
+						<ul className="flex flex-col">
+							{idsByGroup(group).map((id) => (
+								<li
+									key={id}
+									className="flex items-center justify-between gap-2 px-1 py-0.5 hover:bg-slate-900"
+								>
+									<span>{commands[id].label}</span>
+									<button
+										type="button"
+										aria-label={`Change the key for ${commands[id].label}`}
+										className={`interactive min-w-16 border px-1.5 font-mono text-[10px] ${
+											recording === id
+												? "border-cyan-400/70 text-cyan-200"
+												: "border-slate-700 text-slate-200 hover:border-cyan-400/70"
+										}`}
+										onClick={() => setRecording(recording === id ? null : id)}
+									>
+										{recording === id
+											? "Press a key…"
+											: formatKeyName(bindings[id])}
+									</button>
+								</li>
+							))}
+						</ul>
+					</section>
+				))}
+				<p className="mt-3 text-[10px] text-slate-500">
+					Click a key to change it, then press the new key; Esc cancels. Single
+					keys are ignored while typing in a field.
+				</p>
+			</div>
+		</div>
+	);
+}
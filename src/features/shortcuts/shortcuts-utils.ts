@@ -0,0 +1,143 @@
+export type ShortcutCommand = {
+	label: string;
+	group: "General" | "Panels" | "Conversations" | "Chat";
+	key: string;
+	/** Runs in the active panel only, instead of falling back to any panel that handles it. */
+	local?: boolean;
+};
+
+const commandList = {
+	showHelp: { label: "Show shortcuts", group: "General", key: "?" },
+	focusFilter: {
+		label: "Focus the panel's filter",
+		group: "General",
+		key: "/",
+		local: true,
+	},
+	clear: {
+		label: "Clear the panel's filter",
+		group: "General",
+		key: "Escape",
+		local: true,
+	},
+	showConversations: {
+		label: "Go to conversations",
+		group: "Panels",
+		key: "1",
+	},
+	showSearch: { label: "Go to search", group: "Panels", key: "2" },
+	showChat: { label: "Go to chat", group: "Panels", key: "3" },
+	nextConversation: {
+		label: "Next conversation",
+		group: "Conversations",
+		key: "j",
+	},
+	prevConversation: {
+		label: "Previous conversation",
+		group: "Conversations",
+		key: "k",
+	},
+	openConversation: {
+		label: "Open in chat",
+		group: "Conversations",
+		key: "Enter",
+	},
+	nextMatch: { label: "Next match", group: "Chat", key: "n" },
+	prevMatch: { label: "Previous match", group: "Chat", key: "N" },
+} satisfies Record<string, ShortcutCommand>;
+
+export type CommandId = keyof typeof commandList;
+
+export const commands: Record<CommandId, ShortcutCommand> = commandList;
+
+export type Bindings = Record<CommandId, string>;
+
+export const commandIds = Object.keys(commands) as CommandId[];
+
+export const defaultBindings = Object.fromEntries(
+	commandIds.map((id) => [id, commands[id].key]),
+) as Bindings;
+
+const STORAGE_KEY = "convo-viewer.shortcuts";
+
+export function loadBindings(): Bindings {
+	try {
+		const raw = localStorage.getItem(STORAGE_KEY);
+		const stored: unknown = raw ? JSON.parse(raw) : null;
+		if (!stored || typeof stored !== "object") return defaultBindings;
+		const bindings = { ...defaultBindings };
+		for (const id of commandIds) {
+			const key = (stored as Record<string, unknown>)[id];
+			if (typeof key === "string") bindings[id] = key;
+		}
+		return bindings;
+	} catch {
+		return defaultBindings;
+	}
+}
+
+export function saveBindings(bindings: Bindings) {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+	} catch (err) {
+		console.warn("[shortcuts] unable to save bindings", err);
+	}
+}
+
+const MODIFIER_KEYS = new Set(["Control", "Alt", "Meta", "Shift"]);
+
+/**
+ * Names a key press as `ctrl+alt+meta+key`. Shift only shows up for named
+ * keys; for characters it is already in the key (`N`, `?`).
+ */
+export function getKeyName(event: KeyboardEvent) {
+	if (MODIFIER_KEYS.has(event.key)) return null;
+	const key = event.key === " " ? "Space" : event.key;
+	const parts: string[] = [];
+	if (event.ctrlKey) parts.push("ctrl");
+	if (event.altKey) parts.push("alt");
+	if (event.metaKey) parts.push("meta");
+	if (event.shiftKey && key.length > 1) parts.push("shift");
+	parts.push(key);
+	return parts.join("+");
+}
+
+export function formatKeyName(key: string) {
+	if (!key) return "—";
+	return key
+		.split("+")
+		.map((part) => (part === "Escape" ? "Esc" : part))
+		.join(" + ");
+}
+
+/** Typing in these shouldn't trigger single-key shortcuts. */
+export function isTypingTarget(target: EventTarget | null) {
+	if (!(target instanceof HTMLElement)) return false;
+	return (
+		target.isContentEditable ||
+		target.tagName === "INPUT" ||
+		target.tagName === "TEXTAREA" ||
+		target.tagName === "SELECT"
+	);
+}
+
+const MODAL_SELECTOR = "[aria-modal='true'], dialog[open]";
+
+/** An open modal, such as the image lightbox, keeps its keys to itself. */
+export function isInModal(target: EventTarget | null) {
+	const within = (node: unknown) =>
+		node instanceof Element && node.closest(MODAL_SELECTOR) !== null;
+	return (
+		within(target) ||
+		within(document.activeElement) ||
+		document.querySelector(MODAL_SELECTOR) !== null
+	);
+}
+
+/** Enter and Space already activate these. */
+export function isActivatable(target: EventTarget | null) {
+	return (
+		target instanceof HTMLElement &&
+		Boolean(target.closest("button, a[href], summary, [role='button']"))
+	);
+}
@@ -0,0 +1,8 @@
+export function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -11,3 +11,25 @@ export function formatTimestamp(value?: number) {
 	if (Number.isNaN(date.getTime())) return "—";
 	return dateFormat.format(date);
 }
+
+/** Compact span such as `45s`, `12m`, `3h 5m` or `2d 4h`. */
+export function formatDuration(seconds: number) {
+	if (seconds < 60) return `${Math.round(seconds)}s`;
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) return `${minutes}m`;
+	const hours = Math.floor(minutes / 60);
+	if (hours < 24) return `${hours}h ${minutes % 60}m`;
+	return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+const byteUnits = ["B", "KB", "MB", "GB"];
+
+export function formatBytes(value: number) {
+	let size = value;
+	let unit = 0;
+	while (size >= 1024 && unit < byteUnits.length - 1) {
+		size /= 1024;
+		unit += 1;
+	}
+	return `${size.toFixed(unit === 0 ? 0 : 1)} ${byteUnits[unit]}`;
+}
@@ -0,0 +1,33 @@
+export function requestResult<T>(request: IDBRequest<T>) {
+	return new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+export function transactionDone(transaction: IDBTransaction) {
+	return new Promise<void>((resolve, reject) => {
+		transaction.oncomplete = () => resolve();
+		transaction.onerror = () => reject(transaction.error);
+		transaction.onabort = () =>
+			reject(transaction.error ?? new Error("Transaction aborted."));
+	});
+}
+
+export function openDatabase(
+	name: string,
+	version: number,
+	upgrade: (database: IDBDatabase, oldVersion: number) => void,
+) {
+	const request = indexedDB.open(name, version);
+	request.onupgradeneeded = (event) => {
+		upgrade(request.result, event.oldVersion);
+	};
+	return requestResult(request);
+}
+
+export async function getStorageEstimate() {
+	if (!navigator.storage?.estimate) return null;
+	const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+	return { usage, quota };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { createJsonRecordStream } from "./json-stream";
+
+function parseInChunks(text: string, size: number) {
+	const stream = createJsonRecordStream();
+	const records: unknown[] = [];
+	for (let start = 0; start < text.length; start += size) {
+		records.push(...stream.push(text.slice(start, start + size)));
+	}
+	return { records, ...stream.finish() };
+}
+
+const records = [
+	{ id: "a", title: 'quote " and ] bracket', mapping: { x: [1, { y: "}" }] } },
+	"text, with comma",
+	42,
+	null,
+	[1, [2, "\\"]],
+	{ escaped: "back\\\\slash\\" },
+];
+
+describe("createJsonRecordStream", () => {
+	it("splits a top-level array into records", () => {
+		const text = ` \n${JSON.stringify(records, null, 2)}\n`;
+		expect(parseInChunks(text, text.length)).toEqual({
+			records,
+			shape: "array",
+			value: undefined,
+			trailing: null,
+		});
+	});
+
+	it("gives the same records whatever the chunk size", () => {
+		const text = JSON.stringify(records);
+		for (const size of [1, 2, 3, 7, 16]) {
+			expect(parseInChunks(text, size).records).toEqual(records);
+		}
+	});
+
+	it("handles an empty array", () => {
+		expect(parseInChunks("[ ]", 1)).toEqual({
+			records: [],
+			shape: "array",
+			value: undefined,
+			trailing: null,
+		});
+	});
+
+	it("buffers any other top-level value until the end", () => {
+		const value = { conversations: [{ id: "a" }] };
+		expect(parseInChunks(JSON.stringify(value), 4)).toEqual({
+			records: [],
+			shape: "object",
+			value,
+			trailing: null,
+		});
+	});
+
+	it("returns the start of any data after the array", () => {
+		const text = `[{"id":"a"}] \n [{"id":"b"}]${"x".repeat(200)}`;
+		for (const size of [1, 5, text.length]) {
+			const { records, trailing } = parseInChunks(text, size);
+			expect(records).toEqual([{ id: "a" }]);
+			expect(trailing).toBe(`[{"id":"b"}]${"x".repeat(68)}`);
+		}
+	});
+
+	it("throws when the array is cut off", () => {
+		const stream = createJsonRecordStream();
+		expect(stream.push('[{"id": "a"}, {"id"')).toEqual([{ id: "a" }]);
+		expect(() => stream.finish()).toThrow("Unexpected end of JSON input.");
+	});
+});
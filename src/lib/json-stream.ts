@@ -0,0 +1,114 @@
+export type JsonStreamShape = "array" | "object" | "unknown";
+
+const TRAILING_PREVIEW_LENGTH = 80;
+
+/**
+ * Incrementally splits a top-level JSON array into its elements so huge
+ * exports can be parsed record by record. Any other top-level value, such as
+ * `{ "conversations": [...] }`, is buffered whole and parsed once the stream
+ * ends, so those exports don't stream and need memory for the full text.
+ * Text after the array's closing `]` isn't parsed; `finish` returns the
+ * start of it so callers can report a concatenated or damaged file.
+ */
+export function createJsonRecordStream() {
+	let shape: JsonStreamShape = "unknown";
+	let buffer = "";
+	let scan = 0;
+	let start = -1;
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let closed = false;
+	let trailing = "";
+
+	const noteTrailing = (text: string) => {
+		if (trailing.length >= TRAILING_PREVIEW_LENGTH) return;
+		trailing = (trailing + (trailing ? text : text.trimStart())).slice(
+			0,
+			TRAILING_PREVIEW_LENGTH,
+		);
+	};
+
+	const push = (chunk: string) => {
+		const records: unknown[] = [];
+		if (closed) {
+			noteTrailing(chunk);
+			return records;
+		}
+		buffer += chunk;
+
+		if (shape === "unknown") {
+			const first = buffer.search(/\S/);
+			if (first === -1) return records;
+			if (buffer[first] === "[") {
+				shape = "array";
+				scan = first + 1;
+			} else {
+				shape = "object";
+			}
+		}
+		if (shape === "object") return records;
+
+		let index = scan;
+		for (; index < buffer.length; index += 1) {
+			const char = buffer[index];
+			if (inString) {
+				if (escaped) {
+					escaped = false;
+				} else if (char === "\\") {
+					escaped = true;
+				} else if (char === '"') {
+					inString = false;
+				}
+				continue;
+			}
+			if (char === '"') {
+				inString = true;
+				if (start === -1) start = index;
+			} else if (char === "{" || char === "[") {
+				if (depth === 0) start = index;
+				depth += 1;
+			} else if (char === "}" || (char === "]" && depth > 0)) {
+				depth -= 1;
+				if (depth === 0) {
+					records.push(JSON.parse(buffer.slice(start, index + 1)));
+					start = -1;
+				}
+			} else if (depth === 0 && (char === "," || char === "]")) {
+				if (start !== -1) {
+					records.push(JSON.parse(buffer.slice(start, index)));
+					start = -1;
+				}
+				if (char === "]") {
+					closed = true;
+					noteTrailing(buffer.slice(index + 1));
+					break;
+				}
+			} else if (depth === 0 && start === -1 && char.trim()) {
+				start = index;
+			}
+		}
+
+		if (start === -1) {
+			buffer = "";
+			scan = 0;
+		} else {
+			buffer = buffer.slice(start);
+			scan = index - start;
+			start = 0;
+		}
+		return records;
+	};
+
+	const finish = () => {
+		if (shape === "object") {
+			return { shape, value: JSON.parse(buffer) as unknown, trailing: null };
+		}
+		if (shape === "array" && !closed) {
+			throw new Error("Unexpected end of JSON input.");
+		}
+		return { shape, value: undefined, trailing: trailing || null };
+	};
+
+	return { push, finish };
+}
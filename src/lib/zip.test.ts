@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { isZipFile, readZipEntries, readZipEntry, readZipText } from "./zip";
+
+type TestFile = { name: string; text: string; deflate?: boolean };
+
+const encoder = new TextEncoder();
+
+async function deflateRaw(data: Uint8Array<ArrayBuffer>) {
+	const stream = new Blob([data])
+		.stream()
+		.pipeThrough(new CompressionStream("deflate-raw"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+class Writer {
+	bytes: number[] = [];
+	u16(value: number) {
+		this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+	}
+	u32(value: number) {
+		this.u16(value & 0xffff);
+		this.u16(Math.floor(value / 0x10000) & 0xffff);
+	}
+	u64(value: number) {
+		this.u32(value % 0x100000000);
+		this.u32(Math.floor(value / 0x100000000));
+	}
+	add(data: Uint8Array) {
+		this.bytes.push(...data);
+	}
+}
+
+/** Builds a zip in memory; `zip64` moves sizes and offsets to zip64 records. */
+async function buildZip(files: TestFile[], { zip64 = false } = {}) {
+	const out = new Writer();
+	const central = new Writer();
+	for (const file of files) {
+		const name = encoder.encode(file.name);
+		const raw = encoder.encode(file.text);
+		const data = file.deflate ? await deflateRaw(raw) : raw;
+		const method = file.deflate ? 8 : 0;
+		const offset = out.bytes.length;
+
+		out.u32(0x04034b50);
+		out.u16(20);
+		out.u16(0);
+		out.u16(method);
+		out.u32(0);
+		out.u32(0);
+		out.u32(data.length);
+		out.u32(raw.length);
+		out.u16(name.length);
+		out.u16(0);
+		out.add(name);
+		out.add(data);
+
+		central.u32(0x02014b50);
+		central.u16(45);
+		central.u16(45);
+		central.u16(0);
+		central.u16(method);
+		central.u32(0);
+		central.u32(0);
+		central.u32(zip64 ? 0xffffffff : data.length);
+		central.u32(zip64 ? 0xffffffff : raw.length);
+		central.u16(name.length);
+		central.u16(zip64 ? 28 : 0);
+		central.u16(0);
+		central.u16(0);
+		central.u16(0);
+		central.u32(0);
+		central.u32(zip64 ? 0xffffffff : offset);
+		central.add(name);
+		if (zip64) {
+			central.u16(0x0001);
+			central.u16(24);
+			central.u64(raw.length);
+			central.u64(data.length);
+			central.u64(offset);
+		}
+	}
+
+	const directoryOffset = out.bytes.length;
+	out.add(Uint8Array.from(central.bytes));
+	if (zip64) {
+		const recordOffset = out.bytes.length;
+		out.u32(0x06064b50);
+		out.u64(44);
+		out.u16(45);
+		out.u16(45);
+		out.u32(0);
+		out.u32(0);
+		out.u64(files.length);
+		out.u64(files.length);
+		out.u64(central.bytes.length);
+		out.u64(directoryOffset);
+		out.u32(0x07064b50);
+		out.u32(0);
+		out.u64(recordOffset);
+		out.u32(1);
+	}
+	out.u32(0x06054b50);
+	out.u16(0);
+	out.u16(0);
+	out.u16(zip64 ? 0xffff : files.length);
+	out.u16(zip64 ? 0xffff : files.length);
+	out.u32(zip64 ? 0xffffffff : central.bytes.length);
+	out.u32(zip64 ? 0xffffffff : directoryOffset);
+	out.u16(0);
+	return new Blob([Uint8Array.from(out.bytes)]);
+}
+
+const files: TestFile[] = [
+	{
+		name: "conversations.json",
+		text: '[{"id":"a"}]'.repeat(20),
+		deflate: true,
+	},
+	{ name: "user.json", text: '{"email":"me@example.com"}' },
+	{ name: "files/é.txt", text: "unicode name" },
+];
+
+describe("zip", () => {
+	it("recognises zip files by their signature", async () => {
+		expect(await isZipFile(await buildZip(files))).toBe(true);
+		expect(await isZipFile(new Blob(["[]"]))).toBe(false);
+	});
+
+	for (const zip64 of [false, true]) {
+		it(`reads entries and their contents${zip64 ? " from zip64" : ""}`, async () => {
+			const blob = await buildZip(files, { zip64 });
+			const entries = await readZipEntries(blob);
+			expect(entries.map((entry) => entry.name)).toEqual(
+				files.map((file) => file.name),
+			);
+			expect(entries.map((entry) => entry.compression)).toEqual([8, 0, 0]);
+			for (const [index, entry] of entries.entries()) {
+				expect(entry.size).toBe(encoder.encode(files[index].text).length);
+				expect(await readZipText(blob, entry)).toBe(files[index].text);
+			}
+		});
+	}
+
+	it("reads an entry as a typed blob", async () => {
+		const blob = await buildZip(files);
+		const [entry] = await readZipEntries(blob);
+		const data = await readZipEntry(blob, entry, "application/json");
+		expect(data.type).toBe("application/json");
+		expect(await data.text()).toBe(files[0].text);
+	});
+
+	it("rejects data without a central directory", async () => {
+		await expect(readZipEntries(new Blob(["not a zip"]))).rejects.toThrow(
+			"end of central directory not found",
+		);
+	});
+});
@@ -0,0 +1,155 @@
+export type ZipEntry = {
+	name: string;
+	size: number;
+	compressedSize: number;
+	compression: number;
+	offset: number;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const MAX_COMMENT = 0xffff;
+const U32_MAX = 0xffffffff;
+
+const nameDecoder = new TextDecoder();
+
+async function readView(blob: Blob, start: number, end: number) {
+	const buffer = await blob.slice(start, end).arrayBuffer();
+	return new DataView(buffer);
+}
+
+function readU64(view: DataView, offset: number) {
+	return Number(view.getBigUint64(offset, true));
+}
+
+export async function isZipFile(blob: Blob) {
+	if (blob.size < 4) return false;
+	const view = await readView(blob, 0, 4);
+	return view.getUint32(0, true) === LOCAL_SIGNATURE;
+}
+
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+	const tailStart = Math.max(0, blob.size - (MAX_COMMENT + 22));
+	const tail = await readView(blob, tailStart, blob.size);
+
+	let eocd = -1;
+	for (let index = tail.byteLength - 22; index >= 0; index -= 1) {
+		if (tail.getUint32(index, true) === EOCD_SIGNATURE) {
+			eocd = index;
+			break;
+		}
+	}
+	if (eocd === -1) {
+		throw new Error("Not a zip archive: end of central directory not found.");
+	}
+
+	let entryCount = tail.getUint16(eocd + 10, true);
+	let directorySize = tail.getUint32(eocd + 12, true);
+	let directoryOffset = tail.getUint32(eocd + 16, true);
+
+	const locator = eocd - 20;
+	if (
+		locator >= 0 &&
+		tail.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE
+	) {
+		const recordOffset = readU64(tail, locator + 8);
+		const record = await readView(blob, recordOffset, recordOffset + 56);
+		if (record.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+			throw new Error("Corrupt zip64 end of central directory.");
+		}
+		entryCount = readU64(record, 32);
+		directorySize = readU64(record, 40);
+		directoryOffset = readU64(record, 48);
+	}
+
+	const directory = await readView(
+		blob,
+		directoryOffset,
+		directoryOffset + directorySize,
+	);
+	const entries: ZipEntry[] = [];
+	let cursor = 0;
+	for (let index = 0; index < entryCount; index += 1) {
+		if (directory.getUint32(cursor, true) !== CENTRAL_SIGNATURE) {
+			throw new Error("Corrupt zip central directory.");
+		}
+		const compression = directory.getUint16(cursor + 10, true);
+		let compressedSize = directory.getUint32(cursor + 20, true);
+		let size = directory.getUint32(cursor + 24, true);
+		const nameLength = directory.getUint16(cursor + 28, true);
+		const extraLength = directory.getUint16(cursor + 30, true);
+		const commentLength = directory.getUint16(cursor + 32, true);
+		let offset = directory.getUint32(cursor + 42, true);
+		const nameStart = directory.byteOffset + cursor + 46;
+		const name = nameDecoder.decode(
+			new Uint8Array(directory.buffer, nameStart, nameLength),
+		);
+
+		// Zip64 stores the real values in an extra field when the 32-bit ones overflow.
+		let extra = cursor + 46 + nameLength;
+		const extraEnd = extra + extraLength;
+		while (extra + 4 <= extraEnd) {
+			const headerId = directory.getUint16(extra, true);
+			const dataSize = directory.getUint16(extra + 2, true);
+			if (headerId === 0x0001) {
+				let field = extra + 4;
+				if (size === U32_MAX) {
+					size = readU64(directory, field);
+					field += 8;
+				}
+				if (compressedSize === U32_MAX) {
+					compressedSize = readU64(directory, field);
+					field += 8;
+				}
+				if (offset === U32_MAX) {
+					offset = readU64(directory, field);
+				}
+			}
+			extra += 4 + dataSize;
+		}
+
+		if (!name.endsWith("/")) {
+			entries.push({ name, size, compressedSize, compression, offset });
+		}
+		cursor += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+export async function openZipEntry(
+	blob: Blob,
+	entry: ZipEntry,
+): Promise<ReadableStream<Uint8Array>> {
+	const header = await readView(blob, entry.offset, entry.offset + 30);
+	if (header.getUint32(0, true) !== LOCAL_SIGNATURE) {
+		throw new Error(`Corrupt zip entry: ${entry.name}`);
+	}
+	const dataStart =
+		entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+	const data = blob.slice(dataStart, dataStart + entry.compressedSize).stream();
+
+	if (entry.compression === 0) return data;
+	if (entry.compression === 8) {
+		const inflate = new DecompressionStream("deflate-raw");
+		void data.pipeTo(inflate.writable).catch(() => undefined);
+		return inflate.readable;
+	}
+	throw new Error(
+		`Unsupported compression method ${entry.compression} in ${entry.name}`,
+	);
+}
+
+export async function readZipEntry(blob: Blob, entry: ZipEntry, type = "") {
+	const stream = await openZipEntry(blob, entry);
+	const data = await new Response(stream).arrayBuffer();
+	return new Blob([data], { type });
+}
+
+export async function readZipText(blob: Blob, entry: ZipEntry) {
+	const stream = await openZipEntry(blob, entry);
+	return new Response(stream).text();
+}